@@ -1,6 +1,31 @@
 import { Client as ColyseusClient, type Room } from "colyseus.js";
 import "./style.css";
-import { DEFAULT_CONFIG, type GameState, type Tile } from "../../shared/game/engine";
+import { findRejection, type GameAction } from "../../shared/game/actions";
+import {
+  analyzeBoardConnectivity,
+  createRandomSeed,
+  DEFAULT_CONFIG,
+  DEFAULT_TRADE_POLICY,
+  extractBoardWords,
+  findLongestBoardWord,
+  getBoardBounds,
+  getTileFace,
+  isBlankTile,
+  nextPressureDelayMs,
+  scoreBoard,
+  toPublicGameState,
+  type PublicGameState,
+  type Tile,
+  type TradePolicy,
+} from "../../shared/game/engine";
+import { DEFAULT_LANGUAGE, isLanguageCode, LANGUAGE_PACKS } from "../../shared/game/languages";
+import {
+  createPracticeRound,
+  playPracticeAction,
+  type PracticeResult,
+  type PracticeRound,
+} from "../../shared/game/practice";
+import type { PlacementHint } from "../../shared/game/solver";
 
 interface DragState {
   tileId: string;
@@ -10,6 +35,30 @@ interface DragState {
   sourceElement: HTMLButtonElement;
   dragProxy: HTMLDivElement;
   isOverTradeZone: boolean;
+  // Other selected board tiles that travel with the dragged one; empty for a single-tile drag.
+  groupTileIds: string[];
+}
+
+interface MarqueeState {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  additive: boolean;
+  element: HTMLDivElement;
+}
+
+interface PanState {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  origin: BoardViewport;
+}
+
+// The square window of cells the board shows; `size` cells along each side starting at row/col.
+interface BoardViewport {
+  row: number;
+  col: number;
+  size: number;
 }
 
 interface MultiplayerPlayerSnapshot {
@@ -21,18 +70,53 @@ interface MultiplayerPlayerSnapshot {
   wins: number;
   gamesPlayed: number;
   longestWord: string;
+  isBot?: boolean;
+  botDifficulty?: string;
 }
 
 interface MultiplayerRoomSnapshot {
   phase: "lobby" | "playing";
+  variant?: string;
+  casual?: boolean;
+  daily?: boolean;
+  dailyDate?: string;
+  language?: string;
+  tradePolicy?: Partial<TradePolicy>;
   ownerClientId: string;
   lastWinnerName: string;
   lastLongestWord: string;
   roundsPlayed: number;
+  nextPressureAt?: number;
   players: Record<string, MultiplayerPlayerSnapshot>;
   boards?: Record<string, PlayerBoardSnapshot>;
 }
 
+// A solo round run entirely in the browser.
+interface PracticeSession extends PracticeRound {
+  startedAt: number;
+  pressureTimer: number | null;
+}
+
+interface PracticeRecord {
+  result: PracticeResult;
+  score: number;
+  durationMs: number;
+  longestWord: string;
+  playedAt: string;
+}
+
+interface PracticeStats {
+  gamesPlayed: number;
+  wins: number;
+  bestScore: number;
+  fastestWinMs: number | null;
+  recentRounds: PracticeRecord[];
+}
+
+// Board actions the local player can take. Practice applies them to its board; rooms send them to the
+// server, which finds the seat from the session.
+type BoardAction = Exclude<Extract<GameAction, { seat: number }>, { type: "leave_table" }>;
+
 interface RoomNoticeMessage {
   level?: "info" | "error";
   message?: string;
@@ -44,6 +128,9 @@ interface MatchRecord {
   longestWord: string;
   players: string[];
   playedAt: string;
+  seed?: number;
+  scores?: Array<{ name: string; score: number }>;
+  rottenPlayers?: string[];
 }
 
 interface PlayerAggregate {
@@ -54,6 +141,19 @@ interface PlayerAggregate {
   updatedAt: string;
 }
 
+interface DailyResult {
+  name: string;
+  completed: boolean;
+  score: number;
+  longestWord: string;
+  durationMs: number;
+}
+
+interface DailyLeaderboard {
+  date: string;
+  results: DailyResult[];
+}
+
 interface StatsSnapshot {
   totalMatches: number;
   recentMatches: MatchRecord[];
@@ -61,23 +161,39 @@ interface StatsSnapshot {
 }
 
 interface GameSnapshotMessage {
-  gameState: GameState;
+  gameState: PublicGameState;
   bagCount: number;
+  nextPressureAt: number;
   reason: string;
   actorClientId?: string;
   serverTime: number;
 }
 
+interface ActionRejectedMessage {
+  message?: string;
+}
+
 interface GameFinishedMessage {
   winnerName?: string;
   longestWord?: string;
   winnerClientId?: string;
   winningBoardTiles?: Tile[];
+  scores?: RoundScore[];
+}
+
+interface RoundScore {
+  playerId: string;
+  name: string;
+  wordPoints: number;
+  lengthBonus: number;
+  shelfPenalty: number;
+  total: number;
 }
 
 interface BoardTileSnapshot {
   id: string;
   letter: string;
+  assignedLetter?: string;
   zone: "board" | "staging";
   row: number;
   col: number;
@@ -85,18 +201,30 @@ interface BoardTileSnapshot {
 
 interface PlayerBoardSnapshot {
   playerId: string;
-  status: GameState["status"];
+  status: PublicGameState["status"];
   turn: number;
   drawPileCount: number;
+  boardMode?: string;
+  // Bounding box of the board; expanding boards grow (and may reach negative cells) as tiles near an edge.
+  minRow?: number;
+  minCol?: number;
   rows: number;
   cols: number;
   players: number;
   lastAction: string;
-  tiles: BoardTileSnapshot[];
+  tileCount: number;
+  stagingCount: number;
+  tradeCount?: number;
+  nextTradeAt?: number;
+  // Only present for the local board while a round is running; every board is revealed once it ends.
+  tiles?: BoardTileSnapshot[];
 }
 
 interface ListedRoomMetadata {
   phase?: string;
+  variant?: string;
+  casual?: boolean;
+  language?: string;
   ownerName?: string;
   playerCount?: number;
   connectedCount?: number;
@@ -127,15 +255,32 @@ interface StoredSeatSession {
   updatedAt: number;
 }
 
-function createPlaceholderState(): GameState {
+function createPlaceholderState(): PublicGameState {
+  const { rows, cols, boardMode, variant, language, players, initialVisibleTiles, pressureRangeMs, blankTiles } =
+    DEFAULT_CONFIG;
   return {
-    config: { ...DEFAULT_CONFIG },
+    config: {
+      rows,
+      cols,
+      boardMode,
+      variant,
+      language,
+      players,
+      initialVisibleTiles,
+      pressureRangeMs: [pressureRangeMs[0], pressureRangeMs[1]],
+      blankTiles,
+      tradePolicy: { ...DEFAULT_TRADE_POLICY },
+    },
     status: "running",
     turn: 0,
     nextTileId: 1,
-    drawPile: [],
     tiles: [],
-    lastAction: "Join or create a room to begin.",
+    lastAction: "Join or create a room, or practice solo, to begin.",
+    tradeCount: 0,
+    lastTradeAt: null,
+    bagCount: 0,
+    undoCount: 0,
+    redoCount: 0,
   };
 }
 
@@ -154,6 +299,12 @@ app.innerHTML = `
 
     <section class="layout">
       <section class="board-panel">
+        <div class="board-toolbar">
+          <button id="zoom-out-btn" class="button button-muted" aria-label="Zoom out">&minus;</button>
+          <button id="zoom-in-btn" class="button button-muted" aria-label="Zoom in">+</button>
+          <button id="zoom-fit-btn" class="button button-muted">Fit</button>
+          <p id="board-view-label" class="metric-subtle"></p>
+        </div>
         <div id="board" class="board" aria-label="Game board">
           <div id="board-cells" class="board-cells"></div>
           <div id="board-tiles" class="board-tiles"></div>
@@ -164,6 +315,7 @@ app.innerHTML = `
         <div id="bag-card" class="hud-card">
           <p class="label">Bag Remaining</p>
           <p id="bag-count" class="metric-number"></p>
+          <p id="pressure-countdown" class="metric-subtle"></p>
         </div>
 
         <div id="shelf-card" class="hud-card">
@@ -179,6 +331,9 @@ app.innerHTML = `
           <div id="serve-row" class="button-row button-row-single">
             <button id="serve-btn" class="button">Serve the bisquits!</button>
           </div>
+          <div id="hint-row" class="button-row button-row-single panel-hidden">
+            <button id="hint-btn" class="button button-muted">Hint</button>
+          </div>
         </div>
 
         <div class="hud-card">
@@ -187,12 +342,36 @@ app.innerHTML = `
           <div id="connect-view">
             <label class="field-label" for="player-name-input">Name</label>
             <input id="player-name-input" class="text-input" maxlength="20" autocomplete="nickname" />
+            <label class="field-label" for="variant-select">Rules</label>
+            <select id="variant-select" class="text-input">
+              <option value="bisquits">Bisquits: pressure ticks</option>
+              <option value="classic">Classic: split, peel, dump, bananas</option>
+            </select>
+            <label class="field-label" for="language-select">Language</label>
+            <select id="language-select" class="text-input"></select>
+            <label class="field-label" for="trade-rules-select">Trades</label>
+            <select id="trade-rules-select" class="text-input">
+              <option value="standard" selected>Standard: one for three</option>
+              <option value="strict">Strict: one for two, 10s apart, 5 per round</option>
+              <option value="pressure">Pressure: every trade serves the table</option>
+            </select>
+            <label class="checkbox-field">
+              <input id="casual-room-input" type="checkbox" />
+              Casual room (hints allowed)
+            </label>
             <div class="button-row button-row-single">
               <button id="create-room-btn" class="button">Create</button>
             </div>
+            <div class="button-row button-row-single">
+              <button id="daily-room-btn" class="button button-muted">Daily Challenge</button>
+            </div>
             <div class="button-row button-row-single">
               <button id="refresh-rooms-btn" class="button button-muted">Refresh Open Rooms</button>
             </div>
+            <div class="button-row button-row-single">
+              <button id="practice-btn" class="button button-muted">Practice Solo</button>
+            </div>
+            <p id="practice-record" class="metric-subtle"></p>
             <ul id="available-room-list" class="room-list"></ul>
           </div>
           <div id="session-view" class="panel-hidden" aria-hidden="true">
@@ -212,6 +391,23 @@ app.innerHTML = `
             <button id="ready-btn" class="button button-muted">Ready</button>
             <button id="start-room-btn" class="button button-muted">Start</button>
           </div>
+          <label id="board-mode-field" class="checkbox-field panel-hidden">
+            <input id="expanding-board-input" type="checkbox" />
+            Expanding board
+          </label>
+          <select id="blank-tiles-select" class="text-input panel-hidden" aria-label="Blank bisquits">
+            <option value="0" selected>No blank bisquits</option>
+            <option value="2">2 blank bisquits</option>
+            <option value="4">4 blank bisquits</option>
+          </select>
+          <div id="bot-controls-row" class="button-row panel-hidden">
+            <select id="bot-difficulty-select" class="text-input" aria-label="Bot difficulty">
+              <option value="easy">Easy bot</option>
+              <option value="medium" selected>Medium bot</option>
+              <option value="hard">Hard bot</option>
+            </select>
+            <button id="add-bot-btn" class="button button-muted">Add Bot</button>
+          </div>
           <p id="room-details" class="metric-subtle"></p>
           <ul id="room-player-list" class="player-list"></ul>
           <p id="room-notice" class="room-notice"></p>
@@ -229,9 +425,10 @@ app.innerHTML = `
   <div id="win-overlay" class="overlay" aria-hidden="true">
     <div class="overlay-card">
       <p class="eyebrow">Round Complete</p>
-      <h2 class="overlay-title">Winning Plate</h2>
-      <p class="overlay-subtitle">Are these bisquits in order?</p>
+      <h2 id="overlay-title" class="overlay-title">Winning Plate</h2>
+      <p id="overlay-subtitle" class="overlay-subtitle">Are these bisquits in order?</p>
       <div id="winning-table" class="winning-table" aria-label="Winning table"></div>
+      <ol id="round-scores" class="round-scores" aria-label="Round scores"></ol>
       <div class="button-row overlay-actions button-row-single">
         <button id="overlay-close-btn" class="button">Close</button>
       </div>
@@ -264,12 +461,18 @@ function isBoardTile(tile: Tile): tile is Tile & { zone: "board"; row: number; c
   return tile.zone === "board" && tile.row !== null && tile.col !== null;
 }
 
-function hasStagingTiles(gameState: GameState): boolean {
+function hasStagingTiles(gameState: PublicGameState): boolean {
   return gameState.tiles.some((tile) => tile.zone === "staging");
 }
 
+// Two-letter tiles such as the Dutch IJ need a smaller face to fit the same bisquit.
+function scaleTileFont(letter: string, size: number): string {
+  return `${letter.length > 1 ? size * 0.62 : size}px`;
+}
+
+// Mirrors the server's rules, which keep letters from any language.
 function sanitizePlayerName(name: string): string {
-  return (name.trim().replace(/\s+/g, " ").replace(/[^\w -]/g, "").slice(0, 20) || "Player").trim();
+  return (name.trim().replace(/\s+/g, " ").replace(/[^\p{L}\p{N}_ -]/gu, "").slice(0, 20) || "Player").trim();
 }
 
 function getRoomSnapshot(room: Room): MultiplayerRoomSnapshot | null {
@@ -304,6 +507,9 @@ function normalizeListedRoom(value: unknown): ListedRoom | null {
     maxClients: Number.isFinite(maxClients) ? maxClients : 0,
     metadata: {
       phase: typeof metadataSource.phase === "string" ? metadataSource.phase : undefined,
+      variant: typeof metadataSource.variant === "string" ? metadataSource.variant : undefined,
+      casual: metadataSource.casual === true,
+      language: typeof metadataSource.language === "string" ? metadataSource.language : undefined,
       ownerName: typeof metadataSource.ownerName === "string" ? metadataSource.ownerName : undefined,
       playerCount: Number.isFinite(Number(metadataSource.playerCount)) ? Number(metadataSource.playerCount) : undefined,
       connectedCount: Number.isFinite(Number(metadataSource.connectedCount))
@@ -321,24 +527,41 @@ const boardCells = requireElement<HTMLDivElement>("#board-cells");
 const boardTiles = requireElement<HTMLDivElement>("#board-tiles");
 const tileShelf = requireElement<HTMLDivElement>("#tile-shelf");
 const winOverlay = requireElement<HTMLDivElement>("#win-overlay");
+const roundScoresList = requireElement<HTMLOListElement>("#round-scores");
 const winningTable = requireElement<HTMLDivElement>("#winning-table");
+const overlayTitle = requireElement<HTMLHeadingElement>("#overlay-title");
+const overlaySubtitle = requireElement<HTMLParagraphElement>("#overlay-subtitle");
 const overlayCloseButton = requireElement<HTMLButtonElement>("#overlay-close-btn");
+const zoomOutButton = requireElement<HTMLButtonElement>("#zoom-out-btn");
+const zoomInButton = requireElement<HTMLButtonElement>("#zoom-in-btn");
+const zoomFitButton = requireElement<HTMLButtonElement>("#zoom-fit-btn");
+const boardViewLabel = requireElement<HTMLParagraphElement>("#board-view-label");
 
 const statusText = requireElement<HTMLParagraphElement>("#status-text");
 const actionText = requireElement<HTMLParagraphElement>("#action-text");
 const bagCount = requireElement<HTMLParagraphElement>("#bag-count");
+const pressureCountdown = requireElement<HTMLParagraphElement>("#pressure-countdown");
 const tradeZone = requireElement<HTMLDivElement>("#trade-zone");
 const serveButton = requireElement<HTMLButtonElement>("#serve-btn");
+const hintRow = requireElement<HTMLDivElement>("#hint-row");
+const hintButton = requireElement<HTMLButtonElement>("#hint-btn");
 
 const netStatus = requireElement<HTMLParagraphElement>("#net-status");
 const playerNameInput = requireElement<HTMLInputElement>("#player-name-input");
+const variantSelect = requireElement<HTMLSelectElement>("#variant-select");
+const casualRoomInput = requireElement<HTMLInputElement>("#casual-room-input");
+const languageSelect = requireElement<HTMLSelectElement>("#language-select");
+const tradeRulesSelect = requireElement<HTMLSelectElement>("#trade-rules-select");
 const connectView = requireElement<HTMLDivElement>("#connect-view");
 const sessionView = requireElement<HTMLDivElement>("#session-view");
 const activePlayerName = requireElement<HTMLParagraphElement>("#active-player-name");
 const activeRoomId = requireElement<HTMLParagraphElement>("#active-room-id");
 const createRoomButton = requireElement<HTMLButtonElement>("#create-room-btn");
+const dailyRoomButton = requireElement<HTMLButtonElement>("#daily-room-btn");
 const refreshRoomsButton = requireElement<HTMLButtonElement>("#refresh-rooms-btn");
 const availableRoomList = requireElement<HTMLUListElement>("#available-room-list");
+const practiceButton = requireElement<HTMLButtonElement>("#practice-btn");
+const practiceRecord = requireElement<HTMLParagraphElement>("#practice-record");
 const quitRoomButton = requireElement<HTMLButtonElement>("#quit-room-btn");
 const roomCard = requireElement<HTMLDivElement>("#room-card");
 const bagCard = requireElement<HTMLDivElement>("#bag-card");
@@ -347,6 +570,12 @@ const actionCard = requireElement<HTMLDivElement>("#action-card");
 const roomControlsRow = requireElement<HTMLDivElement>("#room-controls-row");
 const readyButton = requireElement<HTMLButtonElement>("#ready-btn");
 const startRoomButton = requireElement<HTMLButtonElement>("#start-room-btn");
+const boardModeField = requireElement<HTMLLabelElement>("#board-mode-field");
+const expandingBoardInput = requireElement<HTMLInputElement>("#expanding-board-input");
+const blankTilesSelect = requireElement<HTMLSelectElement>("#blank-tiles-select");
+const botControlsRow = requireElement<HTMLDivElement>("#bot-controls-row");
+const botDifficultySelect = requireElement<HTMLSelectElement>("#bot-difficulty-select");
+const addBotButton = requireElement<HTMLButtonElement>("#add-bot-btn");
 const roomDetails = requireElement<HTMLParagraphElement>("#room-details");
 const roomPlayerList = requireElement<HTMLUListElement>("#room-player-list");
 const roomNotice = requireElement<HTMLParagraphElement>("#room-notice");
@@ -363,14 +592,23 @@ const colyseusEndpoint = import.meta.env.VITE_COLYSEUS_URL || defaultColyseusEnd
 const multiplayerClient = new ColyseusClient(colyseusEndpoint);
 const STORED_SESSION_KEY = "bisquits.seat-session.v1";
 const STORED_SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
-
-let state: GameState = createPlaceholderState();
+const PRACTICE_STATS_KEY = "bisquits.practice-stats.v1";
+// Sent with daily rooms so the first attempt counts however the player renames themselves.
+const PLAYER_KEY_STORAGE_KEY = "bisquits.player-key.v1";
+const PRACTICE_RECENT_LIMIT = 10;
+// The practice board's seat. Rooms ignore the seat a board action carries.
+const LOCAL_SEAT = 0;
+const MIN_VIEWPORT_CELLS = 6;
+const VIEWPORT_ZOOM_STEP = 1.25;
+
+let state: PublicGameState = createPlaceholderState();
 let drag: DragState | null = null;
 let isWinOverlayDismissed = true;
 
 let multiplayerRoom: Room | null = null;
 let multiplayerSnapshot: MultiplayerRoomSnapshot | null = null;
 let multiplayerStats: StatsSnapshot | null = null;
+let dailyLeaderboard: DailyLeaderboard | null = null;
 let lobbyRoom: Room | null = null;
 let connectingLobby: Promise<void> | null = null;
 let listedRooms: ListedRoom[] = [];
@@ -378,17 +616,39 @@ let isRefreshingRooms = false;
 let roomNoticeLevel: "info" | "error" = "info";
 let roomNoticeMessage = "";
 let sharedBagCount = 0;
+let nextPressureAt = 0;
+let serverClockOffsetMs = 0;
 let winningBoardTiles: Array<Tile & { zone: "board"; row: number; col: number }> = [];
+let roundScores: RoundScore[] = [];
+let selectedTileIds = new Set<string>();
+// The latest hint from the server; cleared as soon as the player acts on their board.
+let activeHint: PlacementHint | null = null;
+let marquee: MarqueeState | null = null;
+let pan: PanState | null = null;
+// Null size means "fit the whole board"; otherwise the player has zoomed in and may pan around.
+let boardView: { row: number; col: number; size: number | null } = { row: 1, col: 1, size: null };
+let renderedGridKey = "";
 let currentResumeToken = "";
 let currentPlayerName = sanitizePlayerName(playerNameInput.value);
 let isIntentionalLeave = false;
+let practice: PracticeSession | null = null;
+let practiceStats = readPracticeStats();
+
+for (const pack of Object.values(LANGUAGE_PACKS)) {
+  languageSelect.append(new Option(pack.name, pack.code, pack.code === DEFAULT_LANGUAGE));
+}
 
 function resetLocalRoundState(): void {
   multiplayerRoom = null;
   multiplayerSnapshot = null;
+  dailyLeaderboard = null;
   state = createPlaceholderState();
   sharedBagCount = 0;
+  nextPressureAt = 0;
   winningBoardTiles = [];
+  roundScores = [];
+  selectedTileIds = new Set<string>();
+  activeHint = null;
   isWinOverlayDismissed = true;
 }
 
@@ -440,6 +700,100 @@ function clearStoredSeatSession(): void {
   }
 }
 
+function readPlayerKey(): string {
+  try {
+    const stored = window.localStorage.getItem(PLAYER_KEY_STORAGE_KEY);
+    if (stored) {
+      return stored;
+    }
+
+    const key = crypto.randomUUID();
+    window.localStorage.setItem(PLAYER_KEY_STORAGE_KEY, key);
+    return key;
+  } catch {
+    return "";
+  }
+}
+
+function readPracticeStats(): PracticeStats {
+  const empty: PracticeStats = { gamesPlayed: 0, wins: 0, bestScore: 0, fastestWinMs: null, recentRounds: [] };
+  try {
+    const raw = window.localStorage.getItem(PRACTICE_STATS_KEY);
+    if (!raw) {
+      return empty;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<PracticeStats>;
+    if (
+      typeof parsed.gamesPlayed !== "number" ||
+      typeof parsed.wins !== "number" ||
+      typeof parsed.bestScore !== "number" ||
+      !Array.isArray(parsed.recentRounds)
+    ) {
+      return empty;
+    }
+
+    return {
+      gamesPlayed: parsed.gamesPlayed,
+      wins: parsed.wins,
+      bestScore: parsed.bestScore,
+      fastestWinMs: typeof parsed.fastestWinMs === "number" ? parsed.fastestWinMs : null,
+      recentRounds: parsed.recentRounds.slice(0, PRACTICE_RECENT_LIMIT),
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function writePracticeStats(stats: PracticeStats): void {
+  try {
+    window.localStorage.setItem(PRACTICE_STATS_KEY, JSON.stringify(stats));
+  } catch {
+    // Ignore local-storage failures.
+  }
+}
+
+function recordPracticeRound(stats: PracticeStats, record: PracticeRecord): PracticeStats {
+  const won = record.result === "won";
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    wins: stats.wins + (won ? 1 : 0),
+    bestScore: Math.max(stats.bestScore, record.score),
+    fastestWinMs:
+      won && (stats.fastestWinMs === null || record.durationMs < stats.fastestWinMs)
+        ? record.durationMs
+        : stats.fastestWinMs,
+    recentRounds: [record, ...stats.recentRounds].slice(0, PRACTICE_RECENT_LIMIT),
+  };
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const DAILY_LEADERBOARD_SIZE = 5;
+
+function describeDailyLeaderboard(leaderboard: DailyLeaderboard): string {
+  if (leaderboard.results.length === 0) {
+    return `Daily ${leaderboard.date}: nobody has finished yet.`;
+  }
+  const entries = leaderboard.results.slice(0, DAILY_LEADERBOARD_SIZE).map((result, index) => {
+    const outcome = result.completed ? formatDuration(result.durationMs) : "unfinished";
+    const longestWord = result.longestWord ? `, ${result.longestWord}` : "";
+    return `${index + 1}. ${result.name} ${result.score} (${outcome}${longestWord})`;
+  });
+  return `Daily ${leaderboard.date}: ${entries.join(" · ")}`;
+}
+
+function describePracticeStats(stats: PracticeStats): string {
+  if (stats.gamesPlayed === 0) {
+    return "No practice rounds yet.";
+  }
+  const fastest = stats.fastestWinMs === null ? "" : ` · fastest win: ${formatDuration(stats.fastestWinMs)}`;
+  return `Practice: ${stats.wins}W/${stats.gamesPlayed}G · best score: ${stats.bestScore}${fastest}`;
+}
+
 function persistCurrentSeatSession(): void {
   if (!multiplayerRoom || !currentResumeToken) {
     return;
@@ -452,10 +806,60 @@ function persistCurrentSeatSession(): void {
   });
 }
 
+function clampViewportStart(start: number, min: number, extent: number, size: number): number {
+  if (size >= extent) {
+    return min - Math.floor((size - extent) / 2);
+  }
+  return Math.max(min, Math.min(min + extent - size, start));
+}
+
+function getBoardViewport(): BoardViewport {
+  const bounds = getBoardBounds(state);
+  const fullSize = Math.max(bounds.rows, bounds.cols);
+  const size = Math.max(Math.min(MIN_VIEWPORT_CELLS, fullSize), Math.min(fullSize, boardView.size ?? fullSize));
+  return {
+    row: clampViewportStart(boardView.row, bounds.minRow, bounds.rows, size),
+    col: clampViewportStart(boardView.col, bounds.minCol, bounds.cols, size),
+    size,
+  };
+}
+
+// Zooms so `size` cells fit across the board, keeping the anchor cell under the same spot on screen.
+function zoomBoardView(size: number, anchor?: { row: number; col: number }): void {
+  const current = getBoardViewport();
+  const focus = anchor ?? { row: current.row + current.size / 2, col: current.col + current.size / 2 };
+  const scale = size / current.size;
+  boardView = {
+    row: Math.round(focus.row - (focus.row - current.row) * scale),
+    col: Math.round(focus.col - (focus.col - current.col) * scale),
+    size,
+  };
+  const next = getBoardViewport();
+  const bounds = getBoardBounds(state);
+  boardView = next.size >= Math.max(bounds.rows, bounds.cols) ? { row: 1, col: 1, size: null } : next;
+  render();
+}
+
+function zoomBoardViewBy(direction: 1 | -1, anchor?: { row: number; col: number }): void {
+  const current = getBoardViewport();
+  const scaled = direction > 0 ? Math.floor(current.size / VIEWPORT_ZOOM_STEP) : Math.ceil(current.size * VIEWPORT_ZOOM_STEP);
+  zoomBoardView(scaled === current.size ? current.size - direction : scaled, anchor);
+}
+
+function panBoardView(origin: BoardViewport, rowOffset: number, colOffset: number): void {
+  boardView = { row: origin.row + rowOffset, col: origin.col + colOffset, size: boardView.size };
+  render();
+}
+
+function resetBoardView(): void {
+  boardView = { row: 1, col: 1, size: null };
+}
+
 function getBoardMetrics(): { width: number; height: number; cellWidth: number; cellHeight: number; tileSize: number } {
   const rect = board.getBoundingClientRect();
-  const cellWidth = rect.width / state.config.cols;
-  const cellHeight = rect.height / state.config.rows;
+  const viewport = getBoardViewport();
+  const cellWidth = rect.width / viewport.size;
+  const cellHeight = rect.height / viewport.size;
   const tileSize = Math.min(cellWidth, cellHeight) * 0.86;
   return {
     width: rect.width,
@@ -468,11 +872,16 @@ function getBoardMetrics(): { width: number; height: number; cellWidth: number;
 
 function gridToPoint(row: number, col: number): { x: number; y: number } {
   const metrics = getBoardMetrics();
-  const x = (col - 1) * metrics.cellWidth + (metrics.cellWidth - metrics.tileSize) * 0.5;
-  const y = (row - 1) * metrics.cellHeight + (metrics.cellHeight - metrics.tileSize) * 0.5;
+  const viewport = getBoardViewport();
+  const x = (col - viewport.col) * metrics.cellWidth + (metrics.cellWidth - metrics.tileSize) * 0.5;
+  const y = (row - viewport.row) * metrics.cellHeight + (metrics.cellHeight - metrics.tileSize) * 0.5;
   return { x, y };
 }
 
+function isBoardTileId(tileId: string): boolean {
+  return state.tiles.some((tile) => tile.id === tileId && tile.zone === "board");
+}
+
 function pointerInsideElement(clientX: number, clientY: number, element: HTMLElement): boolean {
   const rect = element.getBoundingClientRect();
   return clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom;
@@ -484,10 +893,16 @@ function pointerToCell(clientX: number, clientY: number): { row: number; col: nu
     return null;
   }
 
+  return clampPointerToCell(clientX, clientY);
+}
+
+function clampPointerToCell(clientX: number, clientY: number): { row: number; col: number } {
+  const rect = board.getBoundingClientRect();
+  const viewport = getBoardViewport();
   const x = clientX - rect.left;
   const y = clientY - rect.top;
-  const col = Math.min(state.config.cols, Math.max(1, Math.floor((x / rect.width) * state.config.cols) + 1));
-  const row = Math.min(state.config.rows, Math.max(1, Math.floor((y / rect.height) * state.config.rows) + 1));
+  const col = Math.min(viewport.size - 1, Math.max(0, Math.floor((x / rect.width) * viewport.size))) + viewport.col;
+  const row = Math.min(viewport.size - 1, Math.max(0, Math.floor((y / rect.height) * viewport.size))) + viewport.row;
   return { row, col };
 }
 
@@ -513,30 +928,45 @@ function hydrateGameStateFromSnapshot(snapshot: MultiplayerRoomSnapshot): boolea
     return false;
   }
 
-  const rows = Math.max(1, Number(localBoard.rows || state.config.rows || DEFAULT_CONFIG.rows));
-  const cols = Math.max(1, Number(localBoard.cols || state.config.cols || DEFAULT_CONFIG.cols));
+  // Expanding boards report their bounding box, so keep the configured grid they grow from.
+  const boardMode = localBoard.boardMode === "expanding" ? "expanding" : "fixed";
+  const rows = boardMode === "expanding" ? state.config.rows : Math.max(1, Number(localBoard.rows || state.config.rows));
+  const cols = boardMode === "expanding" ? state.config.cols : Math.max(1, Number(localBoard.cols || state.config.cols));
   const players = Math.max(2, Number(localBoard.players || state.config.players || DEFAULT_CONFIG.players));
+  const tradePolicy = { ...DEFAULT_TRADE_POLICY, ...snapshot.tradePolicy };
   state = {
     config: {
       rows,
       cols,
+      boardMode,
+      variant: snapshot.variant === "classic" ? "classic" : "bisquits",
+      language: isLanguageCode(snapshot.language) ? snapshot.language : DEFAULT_LANGUAGE,
       players,
       initialVisibleTiles: DEFAULT_CONFIG.initialVisibleTiles,
       pressureRangeMs: [DEFAULT_CONFIG.pressureRangeMs[0], DEFAULT_CONFIG.pressureRangeMs[1]],
+      blankTiles: DEFAULT_CONFIG.blankTiles,
+      tradePolicy,
     },
     status: localBoard.status ?? "running",
     turn: Number(localBoard.turn ?? 0),
     nextTileId: Math.max(1, state.nextTileId),
-    drawPile: Array.from({ length: Math.max(0, Number(localBoard.drawPileCount ?? 0)) }, () => "E"),
     tiles: (localBoard.tiles ?? []).map((tile) => ({
       id: tile.id,
       letter: tile.letter,
+      ...(tile.assignedLetter ? { assignedLetter: tile.assignedLetter } : {}),
       zone: tile.zone === "board" ? "board" : "staging",
-      row: tile.zone === "board" && tile.row >= 0 ? tile.row : null,
-      col: tile.zone === "board" && tile.col >= 0 ? tile.col : null,
+      row: tile.zone === "board" ? tile.row : null,
+      col: tile.zone === "board" ? tile.col : null,
     })),
     lastAction: localBoard.lastAction ?? state.lastAction,
+    tradeCount: Number(localBoard.tradeCount ?? 0),
+    // The board reports when its cooldown ends; store the trade time the engine would have recorded.
+    lastTradeAt: localBoard.nextTradeAt ? localBoard.nextTradeAt - tradePolicy.cooldownMs : null,
+    bagCount: Math.max(0, Number(localBoard.drawPileCount ?? sharedBagCount)),
+    undoCount: state.undoCount,
+    redoCount: state.redoCount,
   };
+  sharedBagCount = state.bagCount;
   return true;
 }
 
@@ -544,6 +974,139 @@ function isServerAuthoritativePlaying(): boolean {
   return Boolean(multiplayerRoom && multiplayerSnapshot?.phase === "playing");
 }
 
+function isRoundActive(): boolean {
+  return practice !== null || isServerAuthoritativePlaying();
+}
+
+const ROOM_ACTION_MESSAGES: Record<BoardAction["type"], string> = {
+  move_tile: "action_move_tile",
+  move_tiles: "action_move_tiles",
+  return_tile: "action_return_tile",
+  assign_blank: "action_assign_blank",
+  undo_move: "action_undo",
+  redo_move: "action_redo",
+  trade_tile: "action_trade_tile",
+  serve_plate: "action_serve_plate",
+};
+
+function sendBoardAction(action: BoardAction): void {
+  if (practice) {
+    dispatchPractice(action);
+    return;
+  }
+  const { type, seat, ...payload } = action;
+  multiplayerRoom?.send(ROOM_ACTION_MESSAGES[type], payload);
+}
+
+function startPractice(): void {
+  stopPractice();
+  const round = createPracticeRound(createRandomSeed(), {
+    variant: variantSelect.value === "classic" ? "classic" : "bisquits",
+    language: isLanguageCode(languageSelect.value) ? languageSelect.value : DEFAULT_LANGUAGE,
+    tradePolicy: { ...DEFAULT_TRADE_POLICY, ...TRADE_RULE_PRESETS[tradeRulesSelect.value] },
+  });
+  practice = {
+    ...round,
+    startedAt: Date.now(),
+    pressureTimer: null,
+  };
+  resetBoardView();
+  serverClockOffsetMs = 0;
+  syncPracticeState(practice);
+  schedulePracticePressure(practice);
+  setRoomNotice("info", "Practice round started. It runs in this browser, so it works offline too.");
+}
+
+function stopPractice(): void {
+  if (!practice) {
+    return;
+  }
+  clearPracticePressure(practice);
+  practice = null;
+  resetLocalRoundState();
+}
+
+function syncPracticeState(session: PracticeSession): void {
+  state = toPublicGameState(session.boards[0], session.bag);
+  sharedBagCount = session.bag.letters.length;
+  selectedTileIds = new Set([...selectedTileIds].filter(isBoardTileId));
+}
+
+function schedulePracticePressure(session: PracticeSession): void {
+  clearPracticePressure(session);
+  const board = session.boards[0];
+  if (board.status !== "running" || board.config.variant === "classic") {
+    return;
+  }
+
+  const delayMs = nextPressureDelayMs(board.config, session.pressureRandom);
+  nextPressureAt = Date.now() + delayMs;
+  session.pressureTimer = window.setTimeout(() => {
+    session.pressureTimer = null;
+    if (practice === session) {
+      dispatchPractice({ type: "pressure_tick" });
+    }
+  }, delayMs);
+}
+
+function clearPracticePressure(session: PracticeSession): void {
+  if (session.pressureTimer !== null) {
+    window.clearTimeout(session.pressureTimer);
+    session.pressureTimer = null;
+  }
+  nextPressureAt = 0;
+}
+
+function dispatchPractice(action: GameAction): void {
+  const session = practice;
+  if (!session) {
+    return;
+  }
+
+  const step = playPracticeAction(session, action);
+  const rejection = findRejection(step.events);
+  if (rejection) {
+    setRoomNotice("error", rejection.message);
+    renderMultiplayerPanel();
+    return;
+  }
+
+  session.boards = step.state;
+  syncPracticeState(session);
+  if (step.result) {
+    finishPractice(session, step.result);
+  } else if (action.type === "pressure_tick") {
+    schedulePracticePressure(session);
+  }
+  render();
+}
+
+function finishPractice(session: PracticeSession, result: PracticeRecord["result"]): void {
+  clearPracticePressure(session);
+  const board = session.boards[0];
+  const score = scoreBoard(board);
+  const durationMs = Date.now() - session.startedAt;
+  practiceStats = recordPracticeRound(practiceStats, {
+    result,
+    score: score.total,
+    durationMs,
+    longestWord: findLongestBoardWord(board),
+    playedAt: new Date().toISOString(),
+  });
+  writePracticeStats(practiceStats);
+
+  if (result === "won") {
+    winningBoardTiles = board.tiles.filter(isBoardTile);
+    roundScores = [{ playerId: "practice", name: currentPlayerName, ...score }];
+    isWinOverlayDismissed = false;
+    setRoomNotice("info", `Practice won in ${formatDuration(durationMs)} with ${score.total} points.`);
+  } else if (result === "rotten") {
+    setRoomNotice("info", `Your final plate went rotten after ${formatDuration(durationMs)}. Try another practice round.`);
+  } else {
+    setRoomNotice("info", `The bag ran dry after ${formatDuration(durationMs)}. Try another practice round.`);
+  }
+}
+
 function setRoomNotice(level: "info" | "error", message: string): void {
   roomNoticeLevel = level;
   roomNoticeMessage = message;
@@ -596,7 +1159,11 @@ function renderAvailableRooms(): void {
     const count = room.metadata.playerCount ?? room.clients;
     const connected = room.metadata.connectedCount ?? room.clients;
     const cap = room.metadata.maxPlayers ?? room.maxClients;
-    header.textContent = `${room.roomId} · ${phase} · ${connected} online · ${count}/${cap}`;
+    const variant = room.metadata.variant === "classic" ? " · classic" : "";
+    const casual = room.metadata.casual ? " · casual" : "";
+    const language =
+      room.metadata.language && room.metadata.language !== DEFAULT_LANGUAGE ? ` · ${room.metadata.language}` : "";
+    header.textContent = `${room.roomId} · ${phase}${variant}${language}${casual} · ${connected} online · ${count}/${cap}`;
 
     const detail = document.createElement("div");
     detail.className = "room-list-meta";
@@ -707,6 +1274,7 @@ function attachRoom(room: Room): void {
     hydrateGameStateFromSnapshot(multiplayerSnapshot);
   }
   winningBoardTiles = [];
+  roundScores = [];
   isWinOverlayDismissed = true;
   currentPlayerName = sanitizePlayerName(playerNameInput.value);
   persistCurrentSeatSession();
@@ -716,6 +1284,7 @@ function attachRoom(room: Room): void {
     multiplayerSnapshot = getRoomSnapshot(room);
     if (multiplayerSnapshot) {
       hydrateGameStateFromSnapshot(multiplayerSnapshot);
+      nextPressureAt = Number(multiplayerSnapshot.nextPressureAt ?? 0);
     }
     render();
   });
@@ -730,6 +1299,11 @@ function attachRoom(room: Room): void {
     renderMultiplayerPanel();
   });
 
+  room.onMessage("daily_leaderboard", (payload: DailyLeaderboard) => {
+    dailyLeaderboard = payload;
+    renderMultiplayerPanel();
+  });
+
   room.onMessage("seat_token", (payload: SeatTokenMessage) => {
     const token = typeof payload?.token === "string" ? payload.token.trim() : "";
     if (!token) {
@@ -741,7 +1315,10 @@ function attachRoom(room: Room): void {
   room.send("request_seat_token");
 
   room.onMessage("game_started", () => {
+    resetBoardView();
+    activeHint = null;
     winningBoardTiles = [];
+    roundScores = [];
     isWinOverlayDismissed = true;
     setRoomNotice("info", "Game started.");
     render();
@@ -749,22 +1326,46 @@ function attachRoom(room: Room): void {
 
   room.onMessage("game_snapshot", (payload: GameSnapshotMessage) => {
     state = payload.gameState;
-    sharedBagCount = Number.isFinite(payload.bagCount) ? payload.bagCount : state.drawPile.length;
+    if (payload.actorClientId === room.sessionId) {
+      activeHint = null;
+    }
+    selectedTileIds = new Set([...selectedTileIds].filter(isBoardTileId));
+    sharedBagCount = Number.isFinite(payload.gameState.bagCount) ? payload.gameState.bagCount : sharedBagCount;
+    nextPressureAt = Number.isFinite(payload.nextPressureAt) ? payload.nextPressureAt : nextPressureAt;
+    if (Number.isFinite(payload.serverTime)) {
+      serverClockOffsetMs = payload.serverTime - Date.now();
+    }
     render();
   });
 
   room.onMessage("game_finished", (payload: GameFinishedMessage) => {
-    const winnerName = payload?.winnerName ?? "Unknown";
+    const winnerName = payload?.winnerName;
     const longestWord = payload?.longestWord ? `, longest word: ${payload.longestWord}` : "";
     winningBoardTiles = (Array.isArray(payload?.winningBoardTiles) ? payload.winningBoardTiles : []).filter(
       isBoardTile,
     );
+    roundScores = Array.isArray(payload?.scores) ? payload.scores : [];
     isWinOverlayDismissed = false;
-    setRoomNotice("info", `${winnerName} won${longestWord}.`);
+    // Rounds that end without a winner still send the scores; the room notice explains why.
+    if (winnerName) {
+      setRoomNotice("info", `${winnerName} won${longestWord}.`);
+    }
+    render();
+  });
+
+  room.onMessage("hint", (payload: PlacementHint) => {
+    activeHint = payload;
+    if (payload.placement) {
+      setRoomNotice("info", `Hint: try ${payload.placement.word} on the highlighted cells.`);
+    } else if (payload.tradeTileIds.length > 0) {
+      setRoomNotice("info", "Hint: no word fits right now. Trade the highlighted bisquits.");
+    } else {
+      setRoomNotice("info", "Hint: no word fits right now. Wait for the next serve.");
+    }
     render();
   });
 
-  room.onMessage("action_rejected", (payload: { message?: string }) => {
+  room.onMessage("action_rejected", (payload: ActionRejectedMessage) => {
     setRoomNotice("error", payload?.message ?? "Action rejected by server.");
     renderMultiplayerPanel();
   });
@@ -813,26 +1414,37 @@ async function attemptResumeJoin(): Promise<boolean> {
   }
 }
 
-async function connectToRoom(mode: "create" | "join", explicitRoomId = ""): Promise<void> {
+// `daily` creates a solo room on the date's fixed deal; its rules can't be changed, so only the player key is sent.
+async function connectToRoom(mode: "create" | "daily" | "join", explicitRoomId = ""): Promise<void> {
   const playerName = sanitizePlayerName(playerNameInput.value);
   playerNameInput.value = playerName;
   currentPlayerName = playerName;
   const targetRoomId = explicitRoomId.trim();
 
   createRoomButton.disabled = true;
+  dailyRoomButton.disabled = true;
+  stopPractice();
 
   try {
     await leaveRoomSilently();
-    if (mode === "create") {
+    if (mode !== "join") {
       clearStoredSeatSession();
       currentResumeToken = "";
     }
     const storedSeat = readStoredSeatSession();
     const resumeToken = storedSeat?.resumeToken ?? "";
-    const shouldSendResume = mode !== "create" && Boolean(resumeToken);
+    const shouldSendResume = mode === "join" && Boolean(resumeToken);
     let joinedRoom: Room;
     if (mode === "create") {
-      joinedRoom = await multiplayerClient.create("bisquits", { name: playerName });
+      joinedRoom = await multiplayerClient.create("bisquits", {
+        name: playerName,
+        variant: variantSelect.value,
+        casual: casualRoomInput.checked,
+        language: languageSelect.value,
+        tradePolicy: TRADE_RULE_PRESETS[tradeRulesSelect.value] ?? {},
+      });
+    } else if (mode === "daily") {
+      joinedRoom = await multiplayerClient.create("bisquits", { name: playerName, daily: true, playerKey: readPlayerKey() });
     } else if (targetRoomId) {
       joinedRoom = await multiplayerClient.joinById(targetRoomId, {
         name: playerName,
@@ -854,15 +1466,23 @@ async function connectToRoom(mode: "create" | "join", explicitRoomId = ""): Prom
     renderMultiplayerPanel();
   } finally {
     createRoomButton.disabled = false;
+    dailyRoomButton.disabled = false;
   }
 }
 
 function renderGrid(): void {
+  const viewport = getBoardViewport();
+  const gridKey = `${viewport.row}:${viewport.col}:${viewport.size}`;
+  if (gridKey === renderedGridKey) {
+    return;
+  }
+  renderedGridKey = gridKey;
+
   boardCells.innerHTML = "";
-  boardCells.style.gridTemplateColumns = `repeat(${state.config.cols}, 1fr)`;
-  boardCells.style.gridTemplateRows = `repeat(${state.config.rows}, 1fr)`;
-  for (let row = 1; row <= state.config.rows; row += 1) {
-    for (let col = 1; col <= state.config.cols; col += 1) {
+  boardCells.style.gridTemplateColumns = `repeat(${viewport.size}, 1fr)`;
+  boardCells.style.gridTemplateRows = `repeat(${viewport.size}, 1fr)`;
+  for (let row = viewport.row; row < viewport.row + viewport.size; row += 1) {
+    for (let col = viewport.col; col < viewport.col + viewport.size; col += 1) {
       const cell = document.createElement("div");
       cell.className = "board-cell";
       if ((row + col) % 2 === 0) {
@@ -873,12 +1493,34 @@ function renderGrid(): void {
   }
 }
 
+function renderBoardView(): void {
+  const bounds = getBoardBounds(state);
+  const viewport = getBoardViewport();
+  const fullSize = Math.max(bounds.rows, bounds.cols);
+  zoomInButton.disabled = viewport.size <= Math.min(MIN_VIEWPORT_CELLS, fullSize);
+  zoomOutButton.disabled = viewport.size >= fullSize;
+  zoomFitButton.disabled = boardView.size === null;
+  boardViewLabel.textContent =
+    viewport.size >= fullSize ? `${bounds.rows}×${bounds.cols} board` : `Viewing ${viewport.size}×${viewport.size} of ${bounds.rows}×${bounds.cols}`;
+}
+
 function renderBoardTiles(): void {
+  renderGrid();
+  renderBoardView();
   const metrics = getBoardMetrics();
+  const viewport = getBoardViewport();
   boardTiles.innerHTML = "";
+  const orphanTileIds = new Set(analyzeBoardConnectivity(state).orphanTileIds);
+  const wordTileIds = new Set(extractBoardWords(state).flatMap((run) => run.tileIds));
+  const isVisible = (tile: { row: number; col: number }) =>
+    tile.row >= viewport.row &&
+    tile.row < viewport.row + viewport.size &&
+    tile.col >= viewport.col &&
+    tile.col < viewport.col + viewport.size;
 
   const sortedTiles = state.tiles
     .filter(isBoardTile)
+    .filter(isVisible)
     .sort((a, b) => {
       if (a.row !== b.row) {
         return a.row - b.row;
@@ -893,18 +1535,48 @@ function renderBoardTiles(): void {
     const tileElement = document.createElement("button");
     tileElement.type = "button";
     tileElement.className = "tile board-tile";
+    tileElement.classList.toggle("tile-in-word", wordTileIds.has(tile.id));
+    tileElement.classList.toggle("tile-orphan", orphanTileIds.has(tile.id));
+    tileElement.classList.toggle("tile-selected", selectedTileIds.has(tile.id));
+    tileElement.classList.toggle("tile-blank", isBlankTile(tile));
     tileElement.dataset.tileId = tile.id;
-    tileElement.textContent = tile.letter;
+    tileElement.textContent = getTileFace(tile);
     tileElement.style.width = `${metrics.tileSize}px`;
     tileElement.style.height = `${metrics.tileSize}px`;
-    tileElement.style.fontSize = `${Math.max(20, metrics.tileSize * 0.7)}px`;
+    tileElement.style.fontSize = scaleTileFont(
+      getTileFace(tile),
+      Math.max(Math.min(20, metrics.tileSize * 0.8), metrics.tileSize * 0.7),
+    );
 
     const point = gridToPoint(tile.row, tile.col);
     tileElement.style.transform = `translate(${point.x}px, ${point.y}px)`;
     tileElement.addEventListener("pointerdown", (event) => startDrag(event, tile, tileElement));
+    if (isBlankTile(tile)) {
+      tileElement.addEventListener("dblclick", () => reassignBlank(tile));
+    }
 
     boardTiles.append(tileElement);
   }
+
+  const shelfTileIds = new Set(state.tiles.filter((tile) => tile.zone === "staging").map((tile) => tile.id));
+  const shelfLetterById = new Map(state.tiles.map((tile) => [tile.id, getTileFace(tile)]));
+  for (const move of activeHint?.placement?.moves ?? []) {
+    if (!shelfTileIds.has(move.tileId) || !isVisible(move)) {
+      continue;
+    }
+    const ghost = document.createElement("div");
+    ghost.className = "tile board-tile tile-hint-ghost";
+    ghost.textContent = move.letter ?? shelfLetterById.get(move.tileId) ?? "";
+    ghost.style.width = `${metrics.tileSize}px`;
+    ghost.style.height = `${metrics.tileSize}px`;
+    ghost.style.fontSize = scaleTileFont(
+      ghost.textContent,
+      Math.max(Math.min(20, metrics.tileSize * 0.8), metrics.tileSize * 0.7),
+    );
+    const point = gridToPoint(move.row, move.col);
+    ghost.style.transform = `translate(${point.x}px, ${point.y}px)`;
+    boardTiles.append(ghost);
+  }
 }
 
 function renderShelfTiles(): void {
@@ -913,11 +1585,13 @@ function renderShelfTiles(): void {
 
   const shelfTileSize = Math.round(Math.max(42, Math.min(66, metrics.tileSize)));
   const shelfTiles = state.tiles.filter((tile) => tile.zone === "staging").sort(compareByTileId);
+  const hintedPlacementIds = new Set(activeHint?.placement?.moves.map((move) => move.tileId) ?? []);
+  const hintedTradeIds = new Set(activeHint?.tradeTileIds ?? []);
 
   if (shelfTiles.length === 0) {
     const message = document.createElement("p");
     message.className = "tile-shelf-empty";
-    message.textContent = isServerAuthoritativePlaying() ? "Shelf is empty." : "No active round.";
+    message.textContent = isRoundActive() ? "Shelf is empty." : "No active round.";
     tileShelf.append(message);
     return;
   }
@@ -926,66 +1600,127 @@ function renderShelfTiles(): void {
     const tileElement = document.createElement("button");
     tileElement.type = "button";
     tileElement.className = "tile shelf-tile";
+    tileElement.classList.toggle("tile-hint-place", hintedPlacementIds.has(tile.id));
+    tileElement.classList.toggle("tile-hint-trade", hintedTradeIds.has(tile.id));
+    tileElement.classList.toggle("tile-blank", isBlankTile(tile));
     tileElement.dataset.tileId = tile.id;
-    tileElement.textContent = tile.letter;
+    tileElement.textContent = getTileFace(tile);
     tileElement.style.width = `${shelfTileSize}px`;
     tileElement.style.height = `${shelfTileSize}px`;
-    tileElement.style.fontSize = `${Math.max(20, shelfTileSize * 0.68)}px`;
+    tileElement.style.fontSize = scaleTileFont(getTileFace(tile), Math.max(20, shelfTileSize * 0.68));
     tileElement.addEventListener("pointerdown", (event) => startDrag(event, tile, tileElement));
     tileShelf.append(tileElement);
   }
 }
 
 function renderStatus(): void {
-  if (!multiplayerRoom || !multiplayerSnapshot) {
+  if (practice) {
+    hintRow.classList.add("panel-hidden");
+  } else if (!multiplayerRoom || !multiplayerSnapshot) {
     statusText.textContent = "Not connected";
-    actionText.textContent = "Create or join a room to begin.";
-    bagCount.textContent = "--";
-    serveButton.disabled = true;
-    serveButton.textContent = "Serve Plate";
-    return;
-  }
-
-  if (multiplayerSnapshot.phase !== "playing") {
-    statusText.textContent = "Lobby";
-    actionText.textContent = state.lastAction || "Waiting for host to start.";
+    actionText.textContent = "Create or join a room, or practice solo, to begin.";
     bagCount.textContent = "--";
     serveButton.disabled = true;
     serveButton.textContent = "Serve Plate";
+    hintRow.classList.add("panel-hidden");
     return;
+  } else {
+    hintRow.classList.toggle("panel-hidden", !multiplayerSnapshot.casual || multiplayerSnapshot.phase !== "playing");
+    if (multiplayerSnapshot.phase !== "playing") {
+      statusText.textContent = "Lobby";
+      actionText.textContent = state.lastAction || "Waiting for host to start.";
+      bagCount.textContent = "--";
+      serveButton.disabled = true;
+      serveButton.textContent = "Serve Plate";
+      return;
+    }
   }
 
-  const statusMap: Record<GameState["status"], string> = {
+  const statusMap: Record<PublicGameState["status"], string> = {
     running: "Game running",
     won: "You won",
     lost: "You lost",
+    rotten: "Rotten plate: sitting out",
   };
 
-  statusText.textContent = statusMap[state.status];
+  statusText.textContent = practice ? `Practice · ${statusMap[state.status]}` : statusMap[state.status];
   actionText.textContent = state.lastAction;
   bagCount.textContent = `${sharedBagCount}`;
 
-  serveButton.disabled = state.status !== "running" || hasStagingTiles(state);
-  serveButton.textContent = sharedBagCount <= state.config.players ? "Serve Final Plate" : "Serve Plate";
+  const boardConnected = analyzeBoardConnectivity(state).connected;
+  serveButton.disabled = state.status !== "running" || hasStagingTiles(state) || !boardConnected;
+  hintButton.disabled = state.status !== "running" || !hasStagingTiles(state);
+  if (state.config.variant === "classic") {
+    const boardCount =
+      practice?.boards.length ?? (Object.keys(multiplayerSnapshot?.boards ?? {}).length || state.config.players);
+    serveButton.textContent = sharedBagCount < boardCount ? "Bananas!" : "Peel";
+  } else {
+    serveButton.textContent = sharedBagCount <= state.config.players ? "Serve Final Plate" : "Serve Plate";
+  }
+}
+
+function renderPressureCountdown(): void {
+  if (!isRoundActive() || state.status !== "running" || nextPressureAt <= 0) {
+    pressureCountdown.textContent = "";
+    return;
+  }
+
+  const remainingMs = Math.max(0, nextPressureAt - (Date.now() + serverClockOffsetMs));
+  pressureCountdown.textContent = `Next bisquit in ${Math.ceil(remainingMs / 1000)}s`;
+}
+
+// Trade rules offered when creating a room; the server fills anything left out with its defaults.
+const TRADE_RULE_PRESETS: Record<string, Partial<TradePolicy>> = {
+  standard: {},
+  strict: { tilesPerTrade: 2, cooldownMs: 10000, maxTradesPerRound: 5 },
+  pressure: { pressureTickOnTrade: true },
+};
+
+const FRESH_BISQUIT_COUNTS = ["a fresh one", "two fresh ones", "three fresh ones", "four fresh ones", "five fresh ones"];
+
+// Follows the room's trade policy: the exchange ratio, trades left this round and any running cooldown.
+function describeTradeZone(policy: TradePolicy, tradesLeft: number, cooldownLeftMs: number): string {
+  if (tradesLeft <= 0) {
+    return "No trades left this round.";
+  }
+  if (cooldownLeftMs > 0) {
+    return `Next trade in ${Math.ceil(cooldownLeftMs / 1000)}s.`;
+  }
+  const fresh = FRESH_BISQUIT_COUNTS[policy.tilesPerTrade - 1] ?? `${policy.tilesPerTrade} fresh ones`;
+  const limit = Number.isFinite(tradesLeft) ? ` ${tradesLeft} left this round.` : "";
+  const pressure = policy.pressureTickOnTrade ? " Every trade serves the table." : "";
+  return `Drop stale bisquit here for ${fresh}!${limit}${pressure}`;
 }
 
 function renderTradeZoneState(isHovering: boolean): void {
-  const disabled = !isServerAuthoritativePlaying() || state.status !== "running" || sharedBagCount <= 3;
+  const policy = state.config.tradePolicy;
+  const tradesLeft =
+    policy.maxTradesPerRound > 0 ? policy.maxTradesPerRound - state.tradeCount : Number.POSITIVE_INFINITY;
+  const cooldownLeftMs =
+    state.lastTradeAt === null ? 0 : state.lastTradeAt + policy.cooldownMs - (Date.now() + serverClockOffsetMs);
+  const disabled =
+    !isRoundActive() ||
+    state.status !== "running" ||
+    sharedBagCount <= policy.tilesPerTrade ||
+    tradesLeft <= 0 ||
+    cooldownLeftMs > 0;
+  tradeZone.textContent = describeTradeZone(policy, tradesLeft, cooldownLeftMs);
   tradeZone.classList.toggle("trade-zone-hover", isHovering && !disabled);
   tradeZone.classList.toggle("trade-zone-disabled", disabled);
 }
 
 function renderWinningTable(): void {
   winningTable.innerHTML = "";
-  winningTable.style.gridTemplateColumns = `repeat(${state.config.cols}, 1fr)`;
-  winningTable.style.gridTemplateRows = `repeat(${state.config.rows}, 1fr)`;
+  const bounds = getBoardBounds({ config: state.config, tiles: winningBoardTiles });
+  winningTable.style.gridTemplateColumns = `repeat(${bounds.cols}, 1fr)`;
+  winningTable.style.gridTemplateRows = `repeat(${bounds.rows}, 1fr)`;
   const boardTilesByCell = new Map<string, Tile & { zone: "board"; row: number; col: number }>();
   for (const tile of winningBoardTiles) {
     boardTilesByCell.set(`${tile.row}:${tile.col}`, tile);
   }
 
-  for (let row = 1; row <= state.config.rows; row += 1) {
-    for (let col = 1; col <= state.config.cols; col += 1) {
+  for (let row = bounds.minRow; row < bounds.minRow + bounds.rows; row += 1) {
+    for (let col = bounds.minCol; col < bounds.minCol + bounds.cols; col += 1) {
       const cell = document.createElement("div");
       cell.className = "winning-cell";
       if ((row + col) % 2 === 0) {
@@ -996,7 +1731,9 @@ function renderWinningTable(): void {
       if (tile) {
         const letter = document.createElement("span");
         letter.className = "winning-letter";
-        letter.textContent = tile.letter;
+        letter.classList.toggle("winning-letter-digraph", getTileFace(tile).length > 1);
+        letter.classList.toggle("winning-letter-blank", isBlankTile(tile));
+        letter.textContent = getTileFace(tile);
         cell.append(letter);
       }
 
@@ -1005,14 +1742,30 @@ function renderWinningTable(): void {
   }
 }
 
+function renderRoundScores(): void {
+  roundScoresList.innerHTML = "";
+  for (const entry of roundScores) {
+    const item = document.createElement("li");
+    const penalty = entry.shelfPenalty > 0 ? ` − ${entry.shelfPenalty} shelf` : "";
+    const bonus = entry.lengthBonus > 0 ? ` + ${entry.lengthBonus} length` : "";
+    item.textContent = `${entry.name}: ${entry.total} (${entry.wordPoints} words${bonus}${penalty})`;
+    roundScoresList.append(item);
+  }
+}
+
 function renderWinOverlay(): void {
-  const showOverlay = winningBoardTiles.length > 0 && !isWinOverlayDismissed;
+  const hasWinner = winningBoardTiles.length > 0;
+  const showOverlay = (hasWinner || roundScores.length > 0) && !isWinOverlayDismissed;
   winOverlay.classList.toggle("overlay-visible", showOverlay);
   winOverlay.setAttribute("aria-hidden", String(!showOverlay));
   document.body.classList.toggle("overlay-open", showOverlay);
 
   if (showOverlay) {
+    overlayTitle.textContent = hasWinner ? "Winning Plate" : "No Winner";
+    overlaySubtitle.textContent = hasWinner ? "Are these bisquits in order?" : "Nobody finished a plate this round.";
+    winningTable.classList.toggle("panel-hidden", !hasWinner);
     renderWinningTable();
+    renderRoundScores();
   }
 }
 
@@ -1023,22 +1776,25 @@ function renderMultiplayerPanel(): void {
 
   if (!currentRoom || !snapshot) {
     netStatus.textContent = `Disconnected (${colyseusEndpoint})`;
-    roomCard.classList.add("panel-hidden");
-    bagCard.classList.add("panel-hidden");
-    shelfCard.classList.add("panel-hidden");
-    actionCard.classList.add("panel-hidden");
+    roomCard.classList.toggle("panel-hidden", !practice);
+    bagCard.classList.toggle("panel-hidden", !practice);
+    shelfCard.classList.toggle("panel-hidden", !practice);
+    actionCard.classList.toggle("panel-hidden", !practice);
     connectView.classList.remove("panel-hidden");
     connectView.setAttribute("aria-hidden", "false");
     sessionView.classList.add("panel-hidden");
     sessionView.setAttribute("aria-hidden", "true");
     activePlayerName.textContent = "";
     activeRoomId.textContent = "";
-    roomDetails.textContent = "";
+    roomDetails.textContent = practice ? "Solo practice · scores stay in this browser" : "";
     roomPlayerList.innerHTML = "";
     readyButton.disabled = true;
     readyButton.classList.add("panel-hidden");
     startRoomButton.disabled = true;
     startRoomButton.classList.add("panel-hidden");
+    boardModeField.classList.add("panel-hidden");
+    blankTilesSelect.classList.add("panel-hidden");
+    botControlsRow.classList.add("panel-hidden");
     roomControlsRow.classList.add("panel-hidden");
     roomControlsRow.classList.add("button-row-single");
     readyButton.textContent = "Ready";
@@ -1061,34 +1817,54 @@ function renderMultiplayerPanel(): void {
     const players = Object.values(snapshot.players);
     const playerCount = players.length;
     const connectedCount = players.filter((player) => player.connected !== false).length;
-    roomDetails.textContent = `Room ${currentRoom.roomId} · ${connectedCount} connected · ${playerCount}/4 seats`;
+    roomDetails.textContent = snapshot.daily
+      ? `Daily challenge${snapshot.dailyDate ? ` · ${snapshot.dailyDate}` : ""} · solo · same deal for everyone`
+      : `Room ${currentRoom.roomId} · ${connectedCount} connected · ${playerCount}/4 seats`;
 
+    const isHost = snapshot.ownerClientId === currentRoom.sessionId;
     roomPlayerList.innerHTML = "";
     const sortedPlayers = players.sort((a, b) => a.name.localeCompare(b.name));
     for (const player of sortedPlayers) {
       const item = document.createElement("li");
       item.className = "player-list-item";
-      const isHost = snapshot.ownerClientId === player.clientId;
+      const isPlayerHost = snapshot.ownerClientId === player.clientId;
       const isSelf = currentRoom.sessionId === player.clientId;
       const roleTokens: string[] = [];
-      if (isHost) {
+      if (isPlayerHost) {
         roleTokens.push("HOST");
       }
+      if (player.isBot) {
+        roleTokens.push(`BOT ${player.botDifficulty?.toUpperCase() ?? ""}`.trim());
+      }
       if (isSelf) {
         roleTokens.push("YOU");
       }
+      const board = snapshot.phase === "playing" ? snapshot.boards?.[player.playerId] : undefined;
       roleTokens.push(
         player.connected === false
           ? "DISCONNECTED"
           : snapshot.phase === "playing"
-            ? "PLAYING"
+            ? board?.status === "rotten"
+              ? "ROTTEN"
+              : "PLAYING"
             : player.ready
               ? "READY"
               : "NOT READY",
       );
       const tag = roleTokens.join(" · ");
       const longestWord = player.longestWord ? ` · best: ${player.longestWord}` : "";
-      item.textContent = `${player.name} (${tag}) · ${player.wins}W/${player.gamesPlayed}G${longestWord}`;
+      const boardSummary = board ? ` · ${board.tileCount - board.stagingCount}/${board.tileCount} placed` : "";
+      item.textContent = `${player.name} (${tag}) · ${player.wins}W/${player.gamesPlayed}G${longestWord}${boardSummary}`;
+      if (player.isBot && isHost && snapshot.phase === "lobby") {
+        const removeButton = document.createElement("button");
+        removeButton.type = "button";
+        removeButton.className = "button button-muted player-remove-btn";
+        removeButton.textContent = "Remove";
+        removeButton.addEventListener("click", () => {
+          multiplayerRoom?.send("remove_bot", { playerId: player.playerId });
+        });
+        item.append(" ", removeButton);
+      }
       roomPlayerList.append(item);
     }
 
@@ -1097,15 +1873,19 @@ function renderMultiplayerPanel(): void {
     readyButton.disabled = !localPlayer || !showReady;
     readyButton.textContent = localPlayer?.ready ? "Unready" : "Ready";
 
-    const isHost = snapshot.ownerClientId === currentRoom.sessionId;
     const showStart = showReady && isHost;
     startRoomButton.classList.toggle("panel-hidden", !showStart);
+    // Daily rooms play fixed rules alone, so the round options and bots don't apply.
+    boardModeField.classList.toggle("panel-hidden", !showStart || Boolean(snapshot.daily));
+    blankTilesSelect.classList.toggle("panel-hidden", !showStart || Boolean(snapshot.daily));
+    botControlsRow.classList.toggle("panel-hidden", !showStart || Boolean(snapshot.daily));
+    addBotButton.disabled = playerCount >= 4;
     roomControlsRow.classList.toggle("panel-hidden", !showReady && !showStart);
     roomControlsRow.classList.toggle("button-row-single", !showStart);
     const canStart =
       showReady &&
       isHost &&
-      connectedCount >= 2;
+      connectedCount >= (snapshot.daily ? 1 : 2);
     startRoomButton.disabled = !canStart;
     startRoomButton.textContent = snapshot.phase === "playing" ? "Playing" : "Start";
   }
@@ -1113,10 +1893,25 @@ function renderMultiplayerPanel(): void {
   roomNotice.textContent = roomNoticeMessage;
   roomNotice.classList.toggle("room-notice-error", roomNoticeLevel === "error");
 
+  practiceButton.textContent = !practice
+    ? "Practice Solo"
+    : practice.boards[0].status === "running"
+      ? "End Practice"
+      : "Practice Again";
+  practiceRecord.textContent = describePracticeStats(practiceStats);
+
   const latestMatch = multiplayerStats?.recentMatches?.[0];
-  if (latestMatch) {
+  if (practice) {
+    statsSummary.textContent = describePracticeStats(practiceStats);
+  } else if (snapshot?.daily) {
+    statsSummary.textContent = dailyLeaderboard ? describeDailyLeaderboard(dailyLeaderboard) : "";
+  } else if (latestMatch) {
     const longestWordLabel = latestMatch.longestWord ? ` · longest: ${latestMatch.longestWord}` : "";
-    statsSummary.textContent = `Last game: ${latestMatch.winnerName}${longestWordLabel} · Total matches: ${multiplayerStats?.totalMatches ?? 0}`;
+    const scoresLabel = latestMatch.scores?.length
+      ? ` · ${latestMatch.scores.map((entry) => `${entry.name} ${entry.score}`).join(", ")}`
+      : "";
+    const rottenLabel = latestMatch.rottenPlayers?.length ? ` · rotten: ${latestMatch.rottenPlayers.join(", ")}` : "";
+    statsSummary.textContent = `Last game: ${latestMatch.winnerName || "no winner"}${longestWordLabel}${scoresLabel}${rottenLabel} · Total matches: ${multiplayerStats?.totalMatches ?? 0}`;
   } else {
     statsSummary.textContent = "No completed multiplayer games recorded yet.";
   }
@@ -1128,6 +1923,7 @@ function render(): void {
   renderBoardTiles();
   renderShelfTiles();
   renderStatus();
+  renderPressureCountdown();
   renderTradeZoneState(false);
   renderWinOverlay();
   renderMultiplayerPanel();
@@ -1158,6 +1954,7 @@ function updateDraggedTilePosition(clientX: number, clientY: number): void {
 function stopDraggingVisualState(): void {
   board.classList.remove("board-drag-active");
   tradeZone.classList.remove("trade-zone-hover");
+  tileShelf.classList.remove("tile-shelf-hover");
   document.body.classList.remove("dragging-active");
 }
 
@@ -1171,6 +1968,7 @@ function endDrag(event: PointerEvent): void {
   const dropInTrade =
     activeDrag.isOverTradeZone || pointerInsideElement(event.clientX, event.clientY, tradeZone);
   const targetCell = pointerToCell(event.clientX, event.clientY);
+  const dropOnShelf = isBoardTileId(draggedTileId) && pointerInsideElement(event.clientX, event.clientY, tileShelf);
 
   activeDrag.sourceElement.classList.remove("tile-source-dragging");
   if (activeDrag.sourceElement.hasPointerCapture(event.pointerId)) {
@@ -1185,21 +1983,58 @@ function endDrag(event: PointerEvent): void {
   drag = null;
   stopDraggingVisualState();
 
-  if (isServerAuthoritativePlaying() && multiplayerRoom) {
-    if (dropInTrade) {
-      multiplayerRoom.send("action_trade_tile", { tileId: draggedTileId });
+  if (isRoundActive()) {
+    if (activeDrag.groupTileIds.length > 0) {
+      const origin = state.tiles.find((tile) => tile.id === draggedTileId);
+      if (targetCell && origin && isBoardTile(origin)) {
+        const rowOffset = targetCell.row - origin.row;
+        const colOffset = targetCell.col - origin.col;
+        if (rowOffset !== 0 || colOffset !== 0) {
+          sendBoardAction({ type: "move_tiles", seat: LOCAL_SEAT, tileIds: activeDrag.groupTileIds, rowOffset, colOffset });
+        }
+      }
+    } else if (dropInTrade) {
+      sendBoardAction({ type: "trade_tile", seat: LOCAL_SEAT, tileId: draggedTileId, now: Date.now() });
+    } else if (dropOnShelf) {
+      sendBoardAction({ type: "return_tile", seat: LOCAL_SEAT, tileId: draggedTileId });
     } else if (targetCell) {
-      multiplayerRoom.send("action_move_tile", {
-        tileId: draggedTileId,
-        row: targetCell.row,
-        col: targetCell.col,
-      });
+      const dropped = state.tiles.find((tile) => tile.id === draggedTileId);
+      // Blanks coming off the shelf are asked for their letter as they land.
+      const letter =
+        dropped && isBlankTile(dropped) && dropped.zone === "staging" ? promptBlankLetter(dropped) : undefined;
+      if (letter !== null) {
+        sendBoardAction({
+          type: "move_tile",
+          seat: LOCAL_SEAT,
+          tileId: draggedTileId,
+          row: targetCell.row,
+          col: targetCell.col,
+          letter,
+        });
+      }
     }
   }
 
   render();
 }
 
+// Null when the player cancels; letters outside the round's tile set are rejected.
+function promptBlankLetter(tile: Tile): string | null {
+  const answer = window.prompt("Which letter should this blank bisquit be?", tile.assignedLetter ?? "");
+  const letter = answer?.trim() ?? "";
+  return letter ? letter : null;
+}
+
+function reassignBlank(tile: Tile): void {
+  if (!isRoundActive() || state.status !== "running") {
+    return;
+  }
+  const letter = promptBlankLetter(tile);
+  if (letter !== null) {
+    sendBoardAction({ type: "assign_blank", seat: LOCAL_SEAT, tileId: tile.id, letter });
+  }
+}
+
 function onDragMove(event: PointerEvent): void {
   if (!drag || event.pointerId !== drag.pointerId) {
     return;
@@ -1208,15 +2043,32 @@ function onDragMove(event: PointerEvent): void {
   updateDraggedTilePosition(event.clientX, event.clientY);
   drag.isOverTradeZone = pointerInsideElement(event.clientX, event.clientY, tradeZone);
   renderTradeZoneState(drag.isOverTradeZone);
+  tileShelf.classList.toggle(
+    "tile-shelf-hover",
+    isBoardTileId(drag.tileId) && pointerInsideElement(event.clientX, event.clientY, tileShelf),
+  );
 }
 
 function startDrag(event: PointerEvent, tile: Tile, element: HTMLButtonElement): void {
-  if (!isServerAuthoritativePlaying() || !multiplayerRoom || state.status !== "running" || drag) {
+  if (!isRoundActive() || state.status !== "running" || drag) {
+    return;
+  }
+
+  if (event.shiftKey && tile.zone === "board") {
+    toggleTileSelection(tile.id);
+    event.preventDefault();
     return;
   }
 
+  const isGroupDrag = tile.zone === "board" && selectedTileIds.has(tile.id) && selectedTileIds.size > 1;
+  const groupTileIds = isGroupDrag ? [...selectedTileIds] : [];
+  if (groupTileIds.length === 0 && selectedTileIds.size > 0) {
+    selectedTileIds = new Set<string>();
+    renderBoardTiles();
+  }
+
   const sourceRect = element.getBoundingClientRect();
-  const dragProxy = createDragProxy(element, tile.letter);
+  const dragProxy = createDragProxy(element, getTileFace(tile));
 
   drag = {
     tileId: tile.id,
@@ -1226,11 +2078,15 @@ function startDrag(event: PointerEvent, tile: Tile, element: HTMLButtonElement):
     sourceElement: element,
     dragProxy,
     isOverTradeZone: false,
+    groupTileIds,
   };
 
   board.classList.add("board-drag-active");
   document.body.classList.add("dragging-active");
   element.classList.add("tile-source-dragging");
+  for (const tileElement of boardTiles.querySelectorAll<HTMLElement>(".tile-selected")) {
+    tileElement.classList.add("tile-source-dragging");
+  }
   element.setPointerCapture(event.pointerId);
 
   updateDraggedTilePosition(event.clientX, event.clientY);
@@ -1242,10 +2098,180 @@ function startDrag(event: PointerEvent, tile: Tile, element: HTMLButtonElement):
   event.preventDefault();
 }
 
+function toggleTileSelection(tileId: string): void {
+  if (selectedTileIds.has(tileId)) {
+    selectedTileIds.delete(tileId);
+  } else {
+    selectedTileIds.add(tileId);
+  }
+  renderBoardTiles();
+}
+
+function updateMarquee(clientX: number, clientY: number): void {
+  if (!marquee) {
+    return;
+  }
+
+  const rect = board.getBoundingClientRect();
+  const clampX = (x: number) => Math.min(rect.width, Math.max(0, x - rect.left));
+  const clampY = (y: number) => Math.min(rect.height, Math.max(0, y - rect.top));
+  const left = Math.min(clampX(marquee.startX), clampX(clientX));
+  const top = Math.min(clampY(marquee.startY), clampY(clientY));
+  marquee.element.style.transform = `translate(${left}px, ${top}px)`;
+  marquee.element.style.width = `${Math.abs(clampX(clientX) - clampX(marquee.startX))}px`;
+  marquee.element.style.height = `${Math.abs(clampY(clientY) - clampY(marquee.startY))}px`;
+}
+
+function onMarqueeMove(event: PointerEvent): void {
+  if (marquee && event.pointerId === marquee.pointerId) {
+    updateMarquee(event.clientX, event.clientY);
+  }
+}
+
+// Selects every board tile whose cell the dragged rectangle touches; shift adds to the current selection.
+function endMarquee(event: PointerEvent): void {
+  if (!marquee || event.pointerId !== marquee.pointerId) {
+    return;
+  }
+
+  const activeMarquee = marquee;
+  marquee = null;
+  activeMarquee.element.remove();
+  document.removeEventListener("pointermove", onMarqueeMove);
+  document.removeEventListener("pointerup", endMarquee);
+  document.removeEventListener("pointercancel", endMarquee);
+
+  const from = clampPointerToCell(activeMarquee.startX, activeMarquee.startY);
+  const to = clampPointerToCell(event.clientX, event.clientY);
+  const rows = [Math.min(from.row, to.row), Math.max(from.row, to.row)];
+  const cols = [Math.min(from.col, to.col), Math.max(from.col, to.col)];
+  const next = activeMarquee.additive ? new Set(selectedTileIds) : new Set<string>();
+  for (const tile of state.tiles.filter(isBoardTile)) {
+    if (tile.row >= rows[0] && tile.row <= rows[1] && tile.col >= cols[0] && tile.col <= cols[1]) {
+      next.add(tile.id);
+    }
+  }
+  selectedTileIds = next;
+  renderBoardTiles();
+}
+
+function onPanMove(event: PointerEvent): void {
+  if (!pan || event.pointerId !== pan.pointerId) {
+    return;
+  }
+  const metrics = getBoardMetrics();
+  const rowOffset = Math.round((pan.startY - event.clientY) / metrics.cellHeight);
+  const colOffset = Math.round((pan.startX - event.clientX) / metrics.cellWidth);
+  panBoardView(pan.origin, rowOffset, colOffset);
+}
+
+function endPan(event: PointerEvent): void {
+  if (!pan || event.pointerId !== pan.pointerId) {
+    return;
+  }
+  pan = null;
+  board.classList.remove("board-panning");
+  document.removeEventListener("pointermove", onPanMove);
+  document.removeEventListener("pointerup", endPan);
+  document.removeEventListener("pointercancel", endPan);
+}
+
+// Middle-button or Alt+drag pans the view; it never touches tiles, so it works outside a round too.
+function startPan(event: PointerEvent): void {
+  pan = { pointerId: event.pointerId, startX: event.clientX, startY: event.clientY, origin: getBoardViewport() };
+  board.classList.add("board-panning");
+  document.addEventListener("pointermove", onPanMove);
+  document.addEventListener("pointerup", endPan);
+  document.addEventListener("pointercancel", endPan);
+  event.preventDefault();
+}
+
+board.addEventListener("pointerdown", (event) => {
+  if (drag || marquee || pan) {
+    return;
+  }
+  if (event.button === 1 || event.altKey) {
+    startPan(event);
+    return;
+  }
+  if (event.target instanceof Element && event.target.closest(".board-tile")) {
+    return;
+  }
+  if (!isRoundActive() || state.status !== "running" || drag || marquee) {
+    return;
+  }
+
+  const element = document.createElement("div");
+  element.className = "selection-marquee";
+  board.append(element);
+  marquee = {
+    pointerId: event.pointerId,
+    startX: event.clientX,
+    startY: event.clientY,
+    additive: event.shiftKey,
+    element,
+  };
+  updateMarquee(event.clientX, event.clientY);
+
+  document.addEventListener("pointermove", onMarqueeMove);
+  document.addEventListener("pointerup", endMarquee);
+  document.addEventListener("pointercancel", endMarquee);
+  event.preventDefault();
+});
+
+board.addEventListener(
+  "wheel",
+  (event) => {
+    if (event.deltaY === 0) {
+      return;
+    }
+    event.preventDefault();
+    zoomBoardViewBy(event.deltaY < 0 ? 1 : -1, clampPointerToCell(event.clientX, event.clientY));
+  },
+  { passive: false },
+);
+
+const ARROW_PAN_OFFSETS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+document.addEventListener("keydown", (event) => {
+  if (event.key === "Escape" && selectedTileIds.size > 0) {
+    selectedTileIds = new Set<string>();
+    renderBoardTiles();
+  }
+
+  const panOffset = ARROW_PAN_OFFSETS[event.key];
+  if (panOffset && boardView.size !== null && !(event.target instanceof HTMLInputElement) && !drag && !pan) {
+    event.preventDefault();
+    panBoardView(getBoardViewport(), panOffset[0], panOffset[1]);
+  }
+});
+
+zoomInButton.addEventListener("click", () => {
+  zoomBoardViewBy(1);
+});
+
+zoomOutButton.addEventListener("click", () => {
+  zoomBoardViewBy(-1);
+});
+
+zoomFitButton.addEventListener("click", () => {
+  resetBoardView();
+  render();
+});
+
 createRoomButton.addEventListener("click", () => {
   void connectToRoom("create");
 });
 
+dailyRoomButton.addEventListener("click", () => {
+  void connectToRoom("daily");
+});
+
 refreshRoomsButton.addEventListener("click", () => {
   void refreshOpenRooms();
 });
@@ -1270,7 +2296,18 @@ readyButton.addEventListener("click", () => {
 });
 
 startRoomButton.addEventListener("click", () => {
-  multiplayerRoom?.send("start_game");
+  multiplayerRoom?.send("start_game", {
+    boardMode: expandingBoardInput.checked ? "expanding" : "fixed",
+    blankTiles: Number(blankTilesSelect.value),
+  });
+});
+
+hintButton.addEventListener("click", () => {
+  multiplayerRoom?.send("request_hint");
+});
+
+addBotButton.addEventListener("click", () => {
+  multiplayerRoom?.send("add_bot", { difficulty: botDifficultySelect.value });
 });
 
 quitRoomButton.addEventListener("click", () => {
@@ -1289,13 +2326,46 @@ playerNameInput.addEventListener("change", () => {
 });
 
 serveButton.addEventListener("click", () => {
-  if (!isServerAuthoritativePlaying()) {
+  if (!isRoundActive()) {
     setRoomNotice("error", "No active round. Ask the host to start a game.");
     renderMultiplayerPanel();
     return;
   }
 
-  multiplayerRoom?.send("action_serve_plate");
+  sendBoardAction({ type: "serve_plate", seat: LOCAL_SEAT });
+});
+
+practiceButton.addEventListener("click", () => {
+  if (practice?.boards[0].status === "running") {
+    stopPractice();
+  } else {
+    startPractice();
+  }
+  render();
+});
+
+// Ctrl/Cmd+Z undoes the last board move; Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it.
+document.addEventListener("keydown", (event) => {
+  if (!(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement || drag) {
+    return;
+  }
+
+  const key = event.key.toLowerCase();
+  const isUndo = key === "z" && !event.shiftKey;
+  const isRedo = (key === "z" && event.shiftKey) || key === "y";
+  if (!isUndo && !isRedo) {
+    return;
+  }
+
+  event.preventDefault();
+  if (!isRoundActive() || state.status !== "running") {
+    return;
+  }
+  if (isUndo && state.undoCount > 0) {
+    sendBoardAction({ type: "undo_move", seat: LOCAL_SEAT });
+  } else if (isRedo && state.redoCount > 0) {
+    sendBoardAction({ type: "redo_move", seat: LOCAL_SEAT });
+  }
 });
 
 overlayCloseButton.addEventListener("click", () => {
@@ -1308,8 +2378,11 @@ const boardResizeObserver = new ResizeObserver(() => {
   renderShelfTiles();
 });
 boardResizeObserver.observe(board);
+window.setInterval(() => {
+  renderPressureCountdown();
+  renderTradeZoneState(drag?.isOverTradeZone ?? false);
+}, 250);
 
-renderGrid();
 render();
 void (async () => {
   await attemptResumeJoin();
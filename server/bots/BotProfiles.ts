@@ -0,0 +1,18 @@
+export type BotDifficulty = "easy" | "medium" | "hard";
+
+export interface BotProfile {
+  label: string;
+  // Pause before each decision, so easier bots fall behind instead of playing worse words only.
+  thinkMs: number;
+  maxWordLength: number;
+}
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: { label: "Easy", thinkMs: 4000, maxWordLength: 4 },
+  medium: { label: "Medium", thinkMs: 2200, maxWordLength: 6 },
+  hard: { label: "Hard", thinkMs: 900, maxWordLength: 12 },
+};
+
+export function parseBotDifficulty(input: unknown): BotDifficulty {
+  return input === "easy" || input === "hard" ? input : "medium";
+}
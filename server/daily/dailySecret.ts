@@ -0,0 +1,14 @@
+import { randomBytes } from "node:crypto";
+
+// Salts the daily seed so a day's deal can't be worked out before it is played. Every server instance
+// must share `BISQUITS_DAILY_SECRET`; without it each process picks its own, and the deal changes on restart.
+function resolveDailySecret(): string {
+  const configured = process.env.BISQUITS_DAILY_SECRET?.trim();
+  if (configured) {
+    return configured;
+  }
+  console.warn("[daily] BISQUITS_DAILY_SECRET is not set; daily deals use a random secret until the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+export const dailySecret = resolveDailySecret();
@@ -0,0 +1,74 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { parseWordList, type WordDictionary } from "../../shared/game/dictionary";
+import {
+  DEFAULT_LANGUAGE,
+  foldWordForPack,
+  LANGUAGE_PACKS,
+  type LanguageCode,
+  type LanguagePack,
+} from "../../shared/game/languages";
+
+// Each pack reads `<code>.txt` from the word list directory. `BISQUITS_WORDLIST_PATH` still points
+// straight at the English list, as it did before there were other languages.
+function defaultWordListPath(language: LanguageCode): string {
+  const configured = language === DEFAULT_LANGUAGE ? process.env.BISQUITS_WORDLIST_PATH?.trim() : "";
+  if (configured) {
+    return resolve(process.cwd(), configured);
+  }
+  const directory = process.env.BISQUITS_WORDLIST_DIR?.trim() || "server/dictionaries";
+  return resolve(process.cwd(), directory, `${language}.txt`);
+}
+
+// A language with no word list plays unchecked: any connected final plate is accepted. Servers that
+// must word-check every round set `BISQUITS_REQUIRE_WORD_LISTS=1`, and rooms refuse those languages.
+function requiresWordLists(): boolean {
+  return process.env.BISQUITS_REQUIRE_WORD_LISTS === "1";
+}
+
+export class DictionaryStore {
+  private readonly resolvePath: (language: LanguageCode) => string;
+  private readonly requireWordLists: boolean;
+  private dictionaries = new Map<LanguageCode, WordDictionary>();
+
+  constructor(resolvePath = defaultWordListPath, requireWordLists = requiresWordLists()) {
+    this.resolvePath = resolvePath;
+    this.requireWordLists = requireWordLists;
+  }
+
+  async init(): Promise<void> {
+    this.dictionaries.clear();
+    await Promise.all(Object.values(LANGUAGE_PACKS).map((pack) => this.load(pack)));
+  }
+
+  private async load(pack: LanguagePack): Promise<void> {
+    const filePath = this.resolvePath(pack.code);
+    try {
+      const raw = await readFile(filePath, "utf8");
+      const dictionary = parseWordList(raw, (word) => foldWordForPack(word, pack));
+      this.dictionaries.set(pack.code, dictionary);
+      console.log(`[dictionary] loaded ${dictionary.size} ${pack.name} words from ${filePath}`);
+    } catch {
+      const consequence = this.requireWordLists
+        ? `${pack.name} rooms cannot be created`
+        : "final plates will not be word-checked";
+      console.error(`[dictionary] no ${pack.name} word list at ${filePath}; ${consequence}`);
+    }
+  }
+
+  getDictionary(language: LanguageCode = DEFAULT_LANGUAGE): WordDictionary | null {
+    return this.dictionaries.get(language) ?? null;
+  }
+
+  // Throws when the language has no word list and word lists are required.
+  requireDictionary(language: LanguageCode = DEFAULT_LANGUAGE): WordDictionary | null {
+    const dictionary = this.getDictionary(language);
+    if (!dictionary && this.requireWordLists) {
+      const { name } = LANGUAGE_PACKS[language];
+      throw new Error(`This server has no ${name} word list, so ${name} rooms are unavailable.`);
+    }
+    return dictionary;
+  }
+}
+
+export const dictionaryStore = new DictionaryStore();
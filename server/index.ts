@@ -3,6 +3,9 @@ import { createServer, type IncomingMessage, type ServerResponse } from "node:ht
 import { extname, join, normalize } from "node:path";
 import { LobbyRoom, Server } from "colyseus";
 import { WebSocketTransport } from "@colyseus/ws-transport";
+import { getDailyDate, getDailySeed, isDailyDate } from "../shared/game/daily";
+import { dailySecret } from "./daily/dailySecret";
+import { dictionaryStore } from "./dictionary/DictionaryStore";
 import { BisquitsRoom } from "./rooms/BisquitsRoom";
 import { statsStore } from "./stats/StatsStore";
 
@@ -54,6 +57,31 @@ async function tryServeFile(res: ServerResponse, absolutePath: string, method: s
   }
 }
 
+function sendJson(res: ServerResponse, statusCode: number, body: unknown, method: string): void {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  res.end(method === "HEAD" ? undefined : JSON.stringify(body));
+}
+
+// `GET /api/daily` returns today's daily leaderboard; `?date=YYYY-MM-DD` picks an earlier day.
+async function handleDailyRequest(res: ServerResponse, requestUrl: URL, method: string): Promise<void> {
+  const date = requestUrl.searchParams.get("date") ?? getDailyDate();
+  if (!isDailyDate(date)) {
+    sendJson(res, 400, { error: "date must look like YYYY-MM-DD." }, method);
+    return;
+  }
+  if (date > getDailyDate()) {
+    sendJson(res, 404, { error: "That daily challenge hasn't been dealt yet." }, method);
+    return;
+  }
+
+  // The seed would let anyone deal today's board ahead of playing it, so only past days get one.
+  const leaderboard = await statsStore.getDailyLeaderboard(date);
+  const seed = date < getDailyDate() ? getDailySeed(date, dailySecret) : undefined;
+  sendJson(res, 200, { ...leaderboard, seed }, method);
+}
+
 async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
   if (res.headersSent || res.writableEnded) {
     return;
@@ -74,6 +102,11 @@ async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Pro
     return;
   }
 
+  if (pathname === "/api/daily") {
+    await handleDailyRequest(res, requestUrl, method);
+    return;
+  }
+
   if (pathname.startsWith("/matchmake")) {
     return;
   }
@@ -121,6 +154,7 @@ gameServer.define("lobby", LobbyRoom);
 gameServer.define("bisquits", BisquitsRoom).enableRealtimeListing();
 
 await statsStore.init();
+await dictionaryStore.init();
 await gameServer.listen(port, host);
 const hostLabel = host === "0.0.0.0" ? "0.0.0.0 (all interfaces)" : host;
 console.log(`[colyseus] listening on ws://${hostLabel}:${port}`);
@@ -1,13 +1,46 @@
 import { randomUUID } from "node:crypto";
+import { StateView } from "@colyseus/schema";
 import { Client, Room } from "colyseus";
 import {
+  applyAction,
+  findRejection,
+  type ActionRejection,
+  type GameAction,
+  type GameEvent,
+  type RoundReplay,
+} from "../../shared/game/actions";
+import {
+  checkTrade,
   createGame,
-  moveTile,
-  servePlate,
-  tradeTile,
+  createPressureRandom,
+  createTable,
+  createRandomSeed,
+  createSeededRandom,
+  createTileBag,
+  DEFAULT_CONFIG,
+  DEFAULT_TRADE_POLICY,
+  findLongestBoardWord,
+  getBoardBounds,
+  nextPressureDelayMs,
+  normalizeSeed,
+  scoreBoard,
+  toPublicGameState,
+  validateGameState,
+  type BoardMode,
   type GameState,
+  type GameVariant,
+  type PublicGameState,
+  type RandomSource,
   type Tile,
+  type TileBag,
+  type TradePolicy,
 } from "../../shared/game/engine";
+import { createDailyChallenge, DAILY_CHALLENGE_CONFIG, getDailyDate } from "../../shared/game/daily";
+import { DEFAULT_LANGUAGE, isLanguageCode, type LanguageCode } from "../../shared/game/languages";
+import { planBotStep, suggestHint, type WordPlacement } from "../../shared/game/solver";
+import { BOT_PROFILES, parseBotDifficulty } from "../bots/BotProfiles";
+import { dailySecret } from "../daily/dailySecret";
+import { dictionaryStore } from "../dictionary/DictionaryStore";
 import {
   ActionEventState,
   BisquitsRoomState,
@@ -17,6 +50,15 @@ import {
 } from "../state/BisquitsRoomState";
 import { statsStore } from "../stats/StatsStore";
 
+interface RoundScore {
+  playerId: string;
+  name: string;
+  wordPoints: number;
+  lengthBonus: number;
+  shelfPenalty: number;
+  total: number;
+}
+
 interface PlayerNameMessage {
   name?: string;
   resumeToken?: string;
@@ -26,16 +68,48 @@ interface ReadyMessage {
   ready?: boolean;
 }
 
+interface StartGameMessage {
+  // Only honoured on debug servers and in casual rooms; a known seed means a known deal.
+  seed?: number;
+  boardMode?: BoardMode;
+  blankTiles?: number;
+}
+
 interface MoveTileMessage {
   tileId?: string;
   row?: number;
   col?: number;
+  // The letter a blank should read as once it lands.
+  letter?: string;
+}
+
+interface AssignBlankMessage {
+  tileId?: string;
+  letter?: string;
+}
+
+interface MoveTilesMessage {
+  tileIds?: string[];
+  rowOffset?: number;
+  colOffset?: number;
+}
+
+interface ReturnTileMessage {
+  tileId?: string;
 }
 
 interface TradeTileMessage {
   tileId?: string;
 }
 
+interface AddBotMessage {
+  difficulty?: string;
+}
+
+interface RemoveBotMessage {
+  playerId?: string;
+}
+
 interface SeatReservation {
   playerId: string;
   expiresAt: number;
@@ -43,10 +117,14 @@ interface SeatReservation {
 
 type RoomNoticeLevel = "info" | "error";
 
+// Hosts can shuffle up to this many blank bisquits into a round's bag.
+const MAX_BLANK_TILES = 4;
+
 function sanitizeName(input: unknown, fallback: string): string {
   const base = typeof input === "string" ? input.trim() : "";
   const collapsed = base.replace(/\s+/g, " ");
-  const cleaned = collapsed.replace(/[^\w -]/g, "");
+  // Letters and digits from any script are kept, so names can match the room's language pack.
+  const cleaned = collapsed.replace(/[^\p{L}\p{N}_ -]/gu, "");
   return (cleaned.slice(0, 20) || fallback).trim();
 }
 
@@ -86,67 +164,77 @@ function getJoinResumeToken(options: unknown): string {
   return "";
 }
 
-function computeLongestWordFromBoard(gameState: GameState): string {
-  const boardLetters = new Map<string, string>();
-  for (const tile of gameState.tiles.filter(isBoardTile)) {
-    boardLetters.set(`${tile.row}:${tile.col}`, tile.letter);
+function getRoomVariant(options: unknown): GameVariant {
+  if (!options || typeof options !== "object") {
+    return DEFAULT_CONFIG.variant;
   }
 
-  let best = "";
-  const updateBest = (candidate: string): void => {
-    if (candidate.length > best.length) {
-      best = candidate;
-    }
+  const source = options as Record<string, unknown>;
+  return source.variant === "classic" ? "classic" : DEFAULT_CONFIG.variant;
+}
+
+function getRoomLanguage(options: unknown): LanguageCode {
+  if (!options || typeof options !== "object") {
+    return DEFAULT_LANGUAGE;
+  }
+
+  const language = (options as Record<string, unknown>).language;
+  return isLanguageCode(language) ? language : DEFAULT_LANGUAGE;
+}
+
+// Trade rules are fixed when the room is created; anything missing keeps the engine default.
+function getRoomTradePolicy(options: unknown): TradePolicy {
+  const source =
+    options && typeof options === "object" ? (options as Record<string, unknown>).tradePolicy : undefined;
+  if (!source || typeof source !== "object") {
+    return { ...DEFAULT_TRADE_POLICY };
+  }
+
+  const policy = source as Record<string, unknown>;
+  return {
+    tilesPerTrade: parseBoundedInt(policy.tilesPerTrade, DEFAULT_TRADE_POLICY.tilesPerTrade, 1, 5),
+    cooldownMs: parseBoundedInt(policy.cooldownMs, DEFAULT_TRADE_POLICY.cooldownMs, 0, 600000),
+    maxTradesPerRound: parseBoundedInt(policy.maxTradesPerRound, DEFAULT_TRADE_POLICY.maxTradesPerRound, 0, 50),
+    pressureTickOnTrade: policy.pressureTickOnTrade === true,
   };
+}
 
-  for (let row = 1; row <= gameState.config.rows; row += 1) {
-    let sequence = "";
-    for (let col = 1; col <= gameState.config.cols; col += 1) {
-      const letter = boardLetters.get(`${row}:${col}`);
-      if (letter) {
-        sequence += letter;
-      } else {
-        if (sequence.length >= 2) {
-          updateBest(sequence);
-        }
-        sequence = "";
-      }
-    }
-    if (sequence.length >= 2) {
-      updateBest(sequence);
-    }
+function getRoomDaily(options: unknown): boolean {
+  if (!options || typeof options !== "object") {
+    return false;
   }
 
-  for (let col = 1; col <= gameState.config.cols; col += 1) {
-    let sequence = "";
-    for (let row = 1; row <= gameState.config.rows; row += 1) {
-      const letter = boardLetters.get(`${row}:${col}`);
-      if (letter) {
-        sequence += letter;
-      } else {
-        if (sequence.length >= 2) {
-          updateBest(sequence);
-        }
-        sequence = "";
-      }
-    }
-    if (sequence.length >= 2) {
-      updateBest(sequence);
-    }
+  return (options as Record<string, unknown>).daily === true;
+}
+
+// A daily player's first attempt is tracked by the key their browser keeps, so a new name is not a new attempt.
+function getRoomPlayerKey(options: unknown): string {
+  if (!options || typeof options !== "object") {
+    return "";
   }
 
-  return best;
+  const key = (options as Record<string, unknown>).playerKey;
+  return typeof key === "string" ? key.trim().slice(0, 64) : "";
 }
 
-function isBoardTile(tile: Tile): tile is Tile & { zone: "board"; row: number; col: number } {
-  return tile.zone === "board" && tile.row !== null && tile.col !== null;
+function getRoomCasual(options: unknown): boolean {
+  if (!options || typeof options !== "object") {
+    return false;
+  }
+
+  return (options as Record<string, unknown>).casual === true;
+}
+
+function getBlankTileCount(message: StartGameMessage | undefined): number {
+  const requested = Number(message?.blankTiles);
+  return Number.isFinite(requested) ? Math.max(0, Math.min(MAX_BLANK_TILES, Math.floor(requested))) : 0;
 }
 
-function hasStagingTiles(gameState: GameState): boolean {
-  return gameState.tiles.some((tile) => tile.zone === "staging");
+function isBoardTile(tile: Tile): tile is Tile & { zone: "board"; row: number; col: number } {
+  return tile.zone === "board" && tile.row !== null && tile.col !== null;
 }
 
-function parseBoundedInt(input: string | undefined, fallback: number, min: number, max: number): number {
+function parseBoundedInt(input: unknown, fallback: number, min: number, max: number): number {
   const numeric = Number(input);
   if (!Number.isFinite(numeric)) {
     return fallback;
@@ -156,28 +244,76 @@ function parseBoundedInt(input: string | undefined, fallback: number, min: numbe
 
 export class BisquitsRoom extends Room<BisquitsRoomState> {
   private static readonly MAX_ACTIVE_ROOMS = 2;
+  // Daily rooms seat one player each, so they draw from a pool of their own and never keep a table from opening.
+  private static readonly MAX_ACTIVE_DAILY_ROOMS = 32;
   private static activeRoomCount = 0;
+  private static activeDailyRoomCount = 0;
 
   maxClients = 4;
 
   private readonly seatReservationSeconds = parseBoundedInt(process.env.BISQUITS_RESERVATION_SECONDS, 300, 10, 3600);
   private readonly actionLogLimit = parseBoundedInt(process.env.BISQUITS_ACTION_LOG_LIMIT, 120, 20, 500);
-
+  private readonly hintCooldownMs = parseBoundedInt(process.env.BISQUITS_HINT_COOLDOWN_MS, 15000, 0, 600000);
+  // Development and debug servers verify the table after every action and refuse actions that would break it.
+  private readonly checkStateInvariants =
+    process.env.NODE_ENV === "development" || process.env.BISQUITS_DEBUG_STATE === "1";
+  private readonly pressureRangeMs: [number, number] = [
+    parseBoundedInt(process.env.BISQUITS_PRESSURE_MIN_MS, DEFAULT_CONFIG.pressureRangeMs[0], 250, 3600000),
+    parseBoundedInt(process.env.BISQUITS_PRESSURE_MAX_MS, DEFAULT_CONFIG.pressureRangeMs[1], 250, 3600000),
+  ];
+
+  // Boards in seat order; a board's seat is its position in this map.
   private playerGameStates = new Map<string, GameState>();
+  // The round's deal and every accepted action, stored with the match so the round can be replayed.
+  private roundReplay: RoundReplay | null = null;
   private playerIdBySessionId = new Map<string, string>();
   private resumeTokenByPlayerId = new Map<string, string>();
   private seatReservationsByToken = new Map<string, SeatReservation>();
   private reservationSweepTimer: NodeJS.Timeout | null = null;
   private roomSlotClaimed = false;
+  private boardsRevealed = false;
 
   private activeRoundPlayers = 0;
-  private sharedBagCount = 0;
-
-  onCreate(): void {
+  private tileBag: TileBag = { letters: [] };
+  private roundSeed = 0;
+  private roundRandom: RandomSource = Math.random;
+  private pressureRandom: RandomSource = Math.random;
+  private pressureTimer: NodeJS.Timeout | null = null;
+  private variant: GameVariant = DEFAULT_CONFIG.variant;
+  private language: LanguageCode = DEFAULT_LANGUAGE;
+  // Players whose final plate went rotten this round, recorded with the match.
+  private rottenPlayerIds = new Set<string>();
+  // Pending decision per bot seat, keyed by the bot's session key in `state.players`.
+  private botTimers = new Map<string, NodeJS.Timeout>();
+  private casual = false;
+  // Daily rooms seat one player on the date's fixed deal and record the result to the daily leaderboard.
+  private daily = false;
+  private dailyPlayerKey = "";
+  private roundStartedAt = 0;
+  private tradePolicy: TradePolicy = { ...DEFAULT_TRADE_POLICY };
+  private lastHintAtByPlayerId = new Map<string, number>();
+
+  onCreate(options: unknown): void {
+    this.daily = getRoomDaily(options);
     this.claimRoomSlot();
     try {
+      this.variant = this.daily ? DAILY_CHALLENGE_CONFIG.variant : getRoomVariant(options);
       this.setState(new BisquitsRoomState());
-      this.setPrivate(false);
+      this.state.variant = this.variant;
+      this.state.daily = this.daily;
+      this.language = this.daily ? DAILY_CHALLENGE_CONFIG.language : getRoomLanguage(options);
+      dictionaryStore.requireDictionary(this.language);
+      this.state.language = this.language;
+      this.casual = !this.daily && getRoomCasual(options);
+      this.state.casual = this.casual;
+      this.tradePolicy = this.daily ? { ...DAILY_CHALLENGE_CONFIG.tradePolicy } : getRoomTradePolicy(options);
+      this.state.tradePolicy.assign(this.tradePolicy);
+      if (this.daily) {
+        this.maxClients = 1;
+        this.dailyPlayerKey = getRoomPlayerKey(options);
+      }
+      // Daily rooms are solo, so they stay out of the open room list; the player can still rejoin by id.
+      this.setPrivate(this.daily);
       this.autoDispose = true;
       this.patchRate = 50;
 
@@ -207,8 +343,16 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
         this.updateRoomMetadata();
       });
 
-      this.onMessage("start_game", (client) => {
-        this.startAuthoritativeGame(client);
+      this.onMessage("add_bot", (client, message: AddBotMessage) => {
+        this.addBot(client, message);
+      });
+
+      this.onMessage("remove_bot", (client, message: RemoveBotMessage) => {
+        this.removeBot(client, message);
+      });
+
+      this.onMessage("start_game", (client, message: StartGameMessage) => {
+        this.startAuthoritativeGame(client, message);
       });
 
       this.onMessage("request_seat_token", (client) => {
@@ -219,6 +363,26 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
         this.handleMoveTile(client, message);
       });
 
+      this.onMessage("action_move_tiles", (client, message: MoveTilesMessage) => {
+        this.handleMoveTiles(client, message);
+      });
+
+      this.onMessage("action_return_tile", (client, message: ReturnTileMessage) => {
+        this.handleReturnTile(client, message);
+      });
+
+      this.onMessage("action_assign_blank", (client, message: AssignBlankMessage) => {
+        this.handleAssignBlank(client, message);
+      });
+
+      this.onMessage("action_undo", (client) => {
+        this.handleMoveHistory(client, "undo_move");
+      });
+
+      this.onMessage("action_redo", (client) => {
+        this.handleMoveHistory(client, "redo_move");
+      });
+
       this.onMessage("action_trade_tile", (client, message: TradeTileMessage) => {
         this.handleTradeTile(client, message);
       });
@@ -227,6 +391,10 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
         this.handleServePlate(client);
       });
 
+      this.onMessage("request_hint", (client) => {
+        this.handleRequestHint(client);
+      });
+
       this.updateRoomMetadata();
     } catch (error) {
       this.releaseRoomSlot();
@@ -266,6 +434,7 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     if (!this.state.ownerClientId || !this.state.players.get(this.state.ownerClientId)?.connected) {
       this.state.ownerClientId = this.getFirstConnectedPlayerSessionId() || client.sessionId;
     }
+    this.refreshBoardViews();
 
     this.sendSeatToken(client, client.sessionId);
 
@@ -278,8 +447,14 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
 
     const stats = await statsStore.getSnapshot();
     client.send("stats_snapshot", stats);
+    if (this.daily) {
+      client.send("daily_leaderboard", await statsStore.getDailyLeaderboard(this.state.dailyDate || getDailyDate()));
+    }
 
     if (this.state.phase === "playing") {
+      if (reclaimedPlayer) {
+        this.checkTableInvariants([...this.playerGameStates.values()], "rejoin");
+      }
       const playerGame = this.getOrCreatePlayerGameState(client.sessionId);
       client.send("game_snapshot", this.buildGameSnapshot(playerGame, "sync"));
     }
@@ -315,14 +490,14 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     this.updateRoomMetadata();
   }
 
-  private startAuthoritativeGame(client: Client): void {
+  private startAuthoritativeGame(client: Client, message?: StartGameMessage): void {
     if (client.sessionId !== this.state.ownerClientId) {
       this.sendNotice(client, "error", "Only the host can start the game.");
       return;
     }
 
     const connectedPlayers = this.getConnectedPlayers();
-    if (connectedPlayers.length < 2) {
+    if (connectedPlayers.length < 2 && !this.daily) {
       this.sendNotice(client, "error", "At least 2 connected players are required.");
       return;
     }
@@ -334,10 +509,16 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
 
     this.activeRoundPlayers = Math.min(4, connectedPlayers.length);
     this.playerGameStates.clear();
-    for (const [, participant] of connectedPlayers) {
-      this.playerGameStates.set(participant.playerId, createGame({ players: this.activeRoundPlayers }));
-    }
-    this.sharedBagCount = this.getCurrentBagCountFromRound();
+    this.rottenPlayerIds.clear();
+    this.state.boards.clear();
+    this.boardsRevealed = false;
+    this.roundStartedAt = Date.now();
+    const dealtBoards = this.daily ? this.dealDailyChallenge() : this.dealRound(connectedPlayers.length, message);
+    connectedPlayers.forEach(([, participant], index) => {
+      this.playerGameStates.set(participant.playerId, dealtBoards[index]);
+    });
+    this.roundReplay = { config: dealtBoards[0].config, boardCount: dealtBoards.length, actions: [] };
+    this.checkTableInvariants(dealtBoards, "start_game");
     this.syncAllBoardSnapshotsFromGames();
     this.appendActionLog(
       "start_game",
@@ -345,12 +526,203 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
       this.state.players.get(client.sessionId)?.name ?? "Host",
       `${connectedPlayers.length} players`,
     );
+    this.schedulePressureTick();
 
     this.broadcast("game_started", { startedAt: Date.now() });
     this.sendSnapshotsToAllPlayers("start_game", client.sessionId);
+    this.startBots();
     this.updateRoomMetadata();
   }
 
+  private dealRound(boardCount: number, message?: StartGameMessage): GameState[] {
+    // Ranked rooms always deal a fresh seed so no host can pick a deal they've already studied.
+    const requestedSeed = this.checkStateInvariants || this.casual ? message?.seed : undefined;
+    this.roundSeed =
+      typeof requestedSeed === "number" && Number.isFinite(requestedSeed) ? normalizeSeed(requestedSeed) : createRandomSeed();
+    this.roundRandom = createSeededRandom(this.roundSeed);
+    this.pressureRandom = createPressureRandom(this.roundSeed);
+    const blankTiles = getBlankTileCount(message);
+    this.tileBag = createTileBag(this.roundRandom, this.language, blankTiles);
+    const boardMode: BoardMode = message?.boardMode === "expanding" ? "expanding" : "fixed";
+    return createTable(
+      {
+        players: this.activeRoundPlayers,
+        seed: this.roundSeed,
+        pressureRangeMs: this.pressureRangeMs,
+        boardMode,
+        variant: this.variant,
+        language: this.language,
+        blankTiles,
+        tradePolicy: this.tradePolicy,
+      },
+      boardCount,
+      this.tileBag,
+    );
+  }
+
+  // The date picks the seed and the rules are fixed, so hosts can't choose a seed, blanks or board mode,
+  // and the server's pressure range settings don't apply.
+  private dealDailyChallenge(): GameState[] {
+    const challenge = createDailyChallenge(getDailyDate(), dailySecret);
+    this.state.dailyDate = challenge.date;
+    this.roundSeed = challenge.seed;
+    this.roundRandom = challenge.rng;
+    this.pressureRandom = challenge.pressureRandom;
+    this.tileBag = challenge.bag;
+    return [challenge.board];
+  }
+
+  private addBot(client: Client, message: AddBotMessage): void {
+    if (client.sessionId !== this.state.ownerClientId) {
+      this.sendNotice(client, "error", "Only the host can add bots.");
+      return;
+    }
+    if (this.state.phase !== "lobby") {
+      this.sendNotice(client, "error", "Bots can only join between rounds.");
+      return;
+    }
+    if (!dictionaryStore.getDictionary(this.language)) {
+      this.sendNotice(client, "error", "Bots need a server word list to play.");
+      return;
+    }
+    if (this.state.players.size >= this.maxClients) {
+      this.sendNotice(client, "error", "Room is full.");
+      return;
+    }
+
+    const difficulty = parseBotDifficulty(message?.difficulty);
+    const sessionId = `bot-${this.generatePlayerId()}`;
+    const bot = new PlayerState();
+    bot.playerId = this.generatePlayerId();
+    bot.clientId = sessionId;
+    bot.name = this.nextBotName(BOT_PROFILES[difficulty].label);
+    bot.connected = true;
+    bot.ready = true;
+    bot.isBot = true;
+    bot.botDifficulty = difficulty;
+
+    this.state.players.set(sessionId, bot);
+    this.playerIdBySessionId.set(sessionId, bot.playerId);
+    this.appendActionLog("add_bot", bot.playerId, bot.name, difficulty);
+    this.broadcast("room_notice", {
+      level: "info",
+      message: `${bot.name} took a seat.`,
+    });
+    this.updateRoomMetadata();
+  }
+
+  private removeBot(client: Client, message: RemoveBotMessage): void {
+    if (client.sessionId !== this.state.ownerClientId) {
+      this.sendNotice(client, "error", "Only the host can remove bots.");
+      return;
+    }
+
+    const entry = this.getPlayerEntryByPlayerId(typeof message?.playerId === "string" ? message.playerId : "");
+    if (!entry || !entry.player.isBot) {
+      this.sendNotice(client, "error", "That seat is not a bot.");
+      return;
+    }
+
+    this.removePlayerBySession(entry.sessionId, `${entry.player.name} was removed from the room.`);
+  }
+
+  private nextBotName(label: string): string {
+    const taken = new Set<string>();
+    this.state.players.forEach((player: PlayerState) => {
+      taken.add(player.name);
+    });
+    let index = 1;
+    while (taken.has(`${label} Bot ${index}`)) {
+      index += 1;
+    }
+    return `${label} Bot ${index}`;
+  }
+
+  private startBots(): void {
+    this.state.players.forEach((player: PlayerState, sessionId: string) => {
+      if (player.isBot) {
+        this.scheduleBotTurn(sessionId);
+      }
+    });
+  }
+
+  private scheduleBotTurn(sessionId: string): void {
+    this.clearBotTimer(sessionId);
+    const bot = this.state.players.get(sessionId);
+    const board = bot ? this.playerGameStates.get(bot.playerId) : undefined;
+    if (!bot?.isBot || this.state.phase !== "playing" || board?.status !== "running") {
+      return;
+    }
+
+    const { thinkMs } = BOT_PROFILES[parseBotDifficulty(bot.botDifficulty)];
+    this.botTimers.set(
+      sessionId,
+      setTimeout(() => {
+        this.botTimers.delete(sessionId);
+        this.runBotTurn(sessionId);
+      }, thinkMs),
+    );
+  }
+
+  private clearBotTimer(sessionId: string): void {
+    const timer = this.botTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.botTimers.delete(sessionId);
+    }
+  }
+
+  private clearBotTimers(): void {
+    for (const timer of this.botTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.botTimers.clear();
+  }
+
+  // Bots play through the same reducer actions as human seats: one decision per think interval.
+  private runBotTurn(sessionId: string): void {
+    const bot = this.state.players.get(sessionId);
+    const dictionary = dictionaryStore.getDictionary(this.language);
+    const board = bot ? this.playerGameStates.get(bot.playerId) : undefined;
+    const seat = bot ? this.getSeatForPlayer(bot.playerId) : -1;
+    if (!bot || !dictionary || !board || seat < 0 || this.state.phase !== "playing") {
+      return;
+    }
+
+    const { maxWordLength } = BOT_PROFILES[parseBotDifficulty(bot.botDifficulty)];
+    const canTrade = checkTrade(board, this.tileBag, Date.now()).valid;
+    const step = planBotStep(board, dictionary, { maxWordLength, canTrade });
+    if (step.type === "place") {
+      this.placeBotWord(bot, seat, step.placement);
+    } else if (step.type === "trade") {
+      const events = this.dispatch({ type: "trade_tile", seat, tileId: step.tileId, now: Date.now() });
+      if (!findRejection(events)) {
+        this.completeTrade(bot.playerId, bot.name, step.tileId, events, sessionId);
+      }
+    } else if (step.type === "serve") {
+      const events = this.dispatch({ type: "serve_plate", seat });
+      if (!findRejection(events)) {
+        this.completeServe(bot.playerId, bot.name, events, sessionId);
+      }
+    }
+
+    this.scheduleBotTurn(sessionId);
+  }
+
+  private placeBotWord(bot: PlayerState, seat: number, placement: WordPlacement): void {
+    for (const move of placement.moves) {
+      const rejection = findRejection(this.dispatch({ type: "move_tile", seat, ...move }));
+      if (rejection) {
+        break;
+      }
+      this.appendActionLog("move_tile", bot.playerId, bot.name, `${move.tileId}@${move.row},${move.col}`);
+    }
+    const next = this.playerGameStates.get(bot.playerId);
+    if (next) {
+      this.syncPlayerBoardSnapshot(bot.playerId, next);
+    }
+  }
+
   private handleMoveTile(client: Client, message: MoveTileMessage): void {
     const current = this.ensurePlaying(client);
     if (!current) {
@@ -366,19 +738,66 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     }
 
     const playerId = this.getPlayerIdForSession(client.sessionId);
-    if (!playerId) {
+    const seat = this.getSeatForPlayer(playerId);
+    if (seat < 0) {
       this.sendActionRejected(client, "Unknown player seat.");
       return;
     }
 
-    const next = moveTile(current, tileId, row, col);
-    this.playerGameStates.set(playerId, next);
+    const letter = typeof message?.letter === "string" ? message.letter : undefined;
+    const rejection = findRejection(this.dispatch({ type: "move_tile", seat, tileId, row, col, letter }));
+    if (rejection) {
+      this.sendRejection(client, rejection);
+      return;
+    }
+
+    const next = this.playerGameStates.get(playerId) ?? current;
     this.syncPlayerBoardSnapshot(playerId, next);
     this.appendActionLog("move_tile", playerId, this.state.players.get(client.sessionId)?.name ?? "", `${tileId}@${row},${col}`);
     client.send("game_snapshot", this.buildGameSnapshot(next, "move_tile", client.sessionId));
   }
 
-  private handleTradeTile(client: Client, message: TradeTileMessage): void {
+  private handleMoveTiles(client: Client, message: MoveTilesMessage): void {
+    const current = this.ensurePlaying(client);
+    if (!current) {
+      return;
+    }
+
+    const tileIds = Array.isArray(message?.tileIds)
+      ? message.tileIds.filter((tileId): tileId is string => typeof tileId === "string" && tileId.length > 0)
+      : [];
+    const rowOffset = Number(message?.rowOffset);
+    const colOffset = Number(message?.colOffset);
+    if (tileIds.length === 0 || !Number.isInteger(rowOffset) || !Number.isInteger(colOffset)) {
+      this.sendActionRejected(client, "Moving a selection requires tile ids and whole-cell row and col offsets.");
+      return;
+    }
+
+    const playerId = this.getPlayerIdForSession(client.sessionId);
+    const seat = this.getSeatForPlayer(playerId);
+    if (seat < 0) {
+      this.sendActionRejected(client, "Unknown player seat.");
+      return;
+    }
+
+    const rejection = findRejection(this.dispatch({ type: "move_tiles", seat, tileIds, rowOffset, colOffset }));
+    if (rejection) {
+      this.sendRejection(client, rejection);
+      return;
+    }
+
+    const next = this.playerGameStates.get(playerId) ?? current;
+    this.syncPlayerBoardSnapshot(playerId, next);
+    this.appendActionLog(
+      "move_tiles",
+      playerId,
+      this.state.players.get(client.sessionId)?.name ?? "",
+      `${tileIds.join(",")} by ${rowOffset},${colOffset}`,
+    );
+    client.send("game_snapshot", this.buildGameSnapshot(next, "move_tiles", client.sessionId));
+  }
+
+  private handleReturnTile(client: Client, message: ReturnTileMessage): void {
     const current = this.ensurePlaying(client);
     if (!current) {
       return;
@@ -386,87 +805,296 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
 
     const tileId = typeof message?.tileId === "string" ? message.tileId : "";
     if (!tileId) {
-      this.sendActionRejected(client, "Trade requires tile id.");
+      this.sendActionRejected(client, "Return requires tile id.");
+      return;
+    }
+
+    const playerId = this.getPlayerIdForSession(client.sessionId);
+    const seat = this.getSeatForPlayer(playerId);
+    if (seat < 0) {
+      this.sendActionRejected(client, "Unknown player seat.");
+      return;
+    }
+
+    const rejection = findRejection(this.dispatch({ type: "return_tile", seat, tileId }));
+    if (rejection) {
+      this.sendRejection(client, rejection);
+      return;
+    }
+
+    const next = this.playerGameStates.get(playerId) ?? current;
+    this.syncPlayerBoardSnapshot(playerId, next);
+    this.appendActionLog("return_tile", playerId, this.state.players.get(client.sessionId)?.name ?? "", tileId);
+    client.send("game_snapshot", this.buildGameSnapshot(next, "return_tile", client.sessionId));
+  }
+
+  // The assigned letter stays out of the shared action log, which every player can read. The board's
+  // last action names it, so that field only reaches the board's own viewers.
+  private handleAssignBlank(client: Client, message: AssignBlankMessage): void {
+    const current = this.ensurePlaying(client);
+    if (!current) {
       return;
     }
 
-    if (this.sharedBagCount <= 3) {
-      this.sendActionRejected(client, "Not enough tiles remain to trade.");
+    const tileId = typeof message?.tileId === "string" ? message.tileId : "";
+    const letter = typeof message?.letter === "string" ? message.letter : "";
+    if (!tileId || !letter) {
+      this.sendActionRejected(client, "Assigning a blank requires tile id and letter.");
       return;
     }
 
     const playerId = this.getPlayerIdForSession(client.sessionId);
-    if (!playerId) {
+    const seat = this.getSeatForPlayer(playerId);
+    if (seat < 0) {
       this.sendActionRejected(client, "Unknown player seat.");
       return;
     }
 
-    const previousBagCount = current.drawPile.length;
-    const next = tradeTile(current, tileId);
-    this.playerGameStates.set(playerId, next);
+    const rejection = findRejection(this.dispatch({ type: "assign_blank", seat, tileId, letter }));
+    if (rejection) {
+      this.sendRejection(client, rejection);
+      return;
+    }
+
+    const next = this.playerGameStates.get(playerId) ?? current;
     this.syncPlayerBoardSnapshot(playerId, next);
-    this.appendActionLog("trade_tile", playerId, this.state.players.get(client.sessionId)?.name ?? "", tileId);
-    const bagDelta = previousBagCount - next.drawPile.length;
-    if (bagDelta !== 0) {
-      this.sharedBagCount = Math.max(0, this.sharedBagCount - bagDelta);
-      this.synchronizePlayerBagSizes(this.sharedBagCount);
+    this.appendActionLog("assign_blank", playerId, this.state.players.get(client.sessionId)?.name ?? "", tileId);
+    client.send("game_snapshot", this.buildGameSnapshot(next, "assign_blank", client.sessionId));
+  }
+
+  // Undo and redo only rearrange the player's own board, so only the actor needs a fresh snapshot.
+  private handleMoveHistory(client: Client, type: "undo_move" | "redo_move"): void {
+    const current = this.ensurePlaying(client);
+    if (!current) {
+      return;
     }
-    this.sendSnapshotsToAllPlayers("trade_tile", client.sessionId);
+
+    const playerId = this.getPlayerIdForSession(client.sessionId);
+    const seat = this.getSeatForPlayer(playerId);
+    if (seat < 0) {
+      this.sendActionRejected(client, "Unknown player seat.");
+      return;
+    }
+
+    const rejection = findRejection(this.dispatch({ type, seat }));
+    if (rejection) {
+      this.sendRejection(client, rejection);
+      return;
+    }
+
+    const next = this.playerGameStates.get(playerId) ?? current;
+    this.syncPlayerBoardSnapshot(playerId, next);
+    const reason = type === "undo_move" ? "undo" : "redo";
+    this.appendActionLog(reason, playerId, this.state.players.get(client.sessionId)?.name ?? "", "");
+    client.send("game_snapshot", this.buildGameSnapshot(next, reason, client.sessionId));
   }
 
-  private handleServePlate(client: Client): void {
+  private handleTradeTile(client: Client, message: TradeTileMessage): void {
     const current = this.ensurePlaying(client);
     if (!current) {
       return;
     }
 
-    if (hasStagingTiles(current)) {
-      this.sendActionRejected(client, "Place all tray tiles on your board before serving.");
+    const tileId = typeof message?.tileId === "string" ? message.tileId : "";
+    if (!tileId) {
+      this.sendActionRejected(client, "Trade requires tile id.");
+      return;
+    }
+
+    const playerId = this.getPlayerIdForSession(client.sessionId);
+    const seat = this.getSeatForPlayer(playerId);
+    if (seat < 0) {
+      this.sendActionRejected(client, "Unknown player seat.");
       return;
     }
 
-    const previousSharedBagCount = this.sharedBagCount;
-    const nextByPlayerId = new Map<string, GameState>();
-    for (const [playerId, participantState] of this.playerGameStates.entries()) {
-      nextByPlayerId.set(playerId, servePlate(participantState));
+    const events = this.dispatch({ type: "trade_tile", seat, tileId, now: Date.now() });
+    const rejection = findRejection(events);
+    if (rejection) {
+      this.sendRejection(client, rejection);
+      return;
     }
 
-    this.playerGameStates = nextByPlayerId;
+    const playerName = this.state.players.get(client.sessionId)?.name ?? "";
+    this.completeTrade(playerId, playerName, tileId, events, client.sessionId);
+  }
+
+  // A trade draws from the shared bag, so every seat gets a fresh bag count.
+  private completeTrade(
+    playerId: string,
+    playerName: string,
+    tileId: string,
+    events: GameEvent[],
+    actorSessionId: string,
+  ): void {
     this.syncAllBoardSnapshotsFromGames();
+    this.appendActionLog("trade_tile", playerId, playerName, tileId);
+    // Rooms that tick on every trade serve the whole table here; the timed ticks keep their own schedule.
+    const roundLost = events.some((event) => event.type === "round_lost");
+    if (roundLost || events.some((event) => event.type === "table_served")) {
+      this.appendActionLog("pressure_tick", playerId, playerName, roundLost ? "bag empty" : "trade");
+    }
+    this.sendSnapshotsToAllPlayers("trade_tile", actorSessionId);
+
+    if (roundLost) {
+      void this.finalizeNoWinner("The bag ran dry under pressure. Nobody won this round.");
+    }
+  }
+
+  private handleServePlate(client: Client): void {
+    const current = this.ensurePlaying(client);
+    if (!current) {
+      return;
+    }
 
     const actorPlayerId = this.getPlayerIdForSession(client.sessionId);
-    const actorNextState = actorPlayerId ? nextByPlayerId.get(actorPlayerId) : undefined;
-    if (actorNextState?.status === "running") {
-      this.sharedBagCount = Math.max(0, previousSharedBagCount - nextByPlayerId.size);
-      this.synchronizePlayerBagSizes(this.sharedBagCount);
-    } else {
-      this.sharedBagCount = this.getCurrentBagCountFromRound();
+    const actorName = this.state.players.get(client.sessionId)?.name ?? "";
+    const seat = this.getSeatForPlayer(actorPlayerId);
+    if (seat < 0) {
+      this.sendActionRejected(client, "Unknown player seat.");
+      return;
     }
 
-    this.sendSnapshotsToAllPlayers("serve_plate", client.sessionId);
-    this.appendActionLog(
-      "serve_plate",
-      actorPlayerId,
-      this.state.players.get(client.sessionId)?.name ?? "",
-      actorNextState?.status ?? "running",
+    const events = this.dispatch({ type: "serve_plate", seat });
+    const rejection = findRejection(events);
+    if (rejection) {
+      this.sendRejection(client, rejection);
+      return;
+    }
+
+    this.completeServe(actorPlayerId, actorName, events, client.sessionId);
+  }
+
+  private completeServe(actorPlayerId: string, actorName: string, events: GameEvent[], actorSessionId: string): void {
+    const rotten = events.find(
+      (event): event is Extract<GameEvent, { type: "board_rotten" }> => event.type === "board_rotten",
     );
+    if (rotten) {
+      this.handleRottenPlate(actorSessionId, actorPlayerId, actorName, rotten, events);
+      return;
+    }
+
+    this.syncAllBoardSnapshotsFromGames();
+    const actorNextState = this.playerGameStates.get(actorPlayerId);
+
+    this.sendSnapshotsToAllPlayers("serve_plate", actorSessionId);
+    this.appendActionLog("serve_plate", actorPlayerId, actorName, actorNextState?.status ?? "running");
 
-    if (!actorNextState || actorNextState.status === "running") {
+    if (events.some((event) => event.type === "round_won")) {
+      void this.finalizeWinner(actorPlayerId);
+    }
+  }
+
+  // Hints are private to the asking player and rate-limited per seat so they can't replace playing.
+  private handleRequestHint(client: Client): void {
+    const current = this.ensurePlaying(client);
+    if (!current) {
+      return;
+    }
+    if (!this.casual) {
+      this.sendActionRejected(client, "Hints are only available in casual rooms.");
+      return;
+    }
+    const dictionary = dictionaryStore.getDictionary(this.language);
+    if (!dictionary) {
+      this.sendActionRejected(client, "Hints need a server word list.");
       return;
     }
 
-    if (actorNextState.status === "won") {
-      if (actorPlayerId) {
-        void this.finalizeWinner(actorPlayerId);
-      }
+    const playerId = this.getPlayerIdForSession(client.sessionId);
+    const now = Date.now();
+    const readyAt = (this.lastHintAtByPlayerId.get(playerId) ?? 0) + this.hintCooldownMs;
+    if (now < readyAt) {
+      this.sendActionRejected(client, `Next hint in ${Math.ceil((readyAt - now) / 1000)}s.`);
       return;
     }
+    this.lastHintAtByPlayerId.set(playerId, now);
+
+    const hint = suggestHint(current, dictionary);
+    this.appendActionLog("hint", playerId, this.state.players.get(client.sessionId)?.name ?? "", "");
+    client.send("hint", hint);
+  }
+
+  // An invalid final plate knocks the player out of the round; their tiles are already back in the bag.
+  private handleRottenPlate(
+    actorSessionId: string,
+    playerId: string,
+    playerName: string,
+    rotten: Extract<GameEvent, { type: "board_rotten" }>,
+    events: GameEvent[],
+  ): void {
+    this.rottenPlayerIds.add(playerId);
+    const words = rotten.invalidWords.map((entry) => entry.word).join(", ");
+    const reason = words ? `misspelled ${words}` : `${rotten.orphanTileIds.length} loose bisquits`;
+    this.syncAllBoardSnapshotsFromGames();
+    this.sendSnapshotsToAllPlayers("serve_rotten", actorSessionId);
+    this.appendActionLog("serve_rotten", playerId, playerName, reason);
+    this.broadcast("room_notice", {
+      level: "info",
+      message: `${playerName} served a rotten plate (${reason}). Their bisquits went back into the bag.`,
+    });
+
+    if (events.some((event) => event.type === "round_lost")) {
+      void this.finalizeNoWinner("Every plate went rotten. Nobody won this round.");
+    }
+  }
 
-    this.finalizeNoWinner("Round ended without a winner.");
+  private getSeatForPlayer(playerId: string): number {
+    return playerId ? [...this.playerGameStates.keys()].indexOf(playerId) : -1;
+  }
+
+  // Runs an action through the engine reducer and writes the boards back by seat.
+  // Rejected actions leave the table untouched and are not recorded.
+  private dispatch(action: GameAction, joiningPlayerId = ""): GameEvent[] {
+    const seatedPlayerIds = [...this.playerGameStates.keys()];
+    const bagBefore = this.checkStateInvariants ? [...this.tileBag.letters] : null;
+    const result = applyAction([...this.playerGameStates.values()], action, {
+      bag: this.tileBag,
+      rng: this.roundRandom,
+      dictionary: dictionaryStore.getDictionary(this.language),
+    });
+    if (findRejection(result.events)) {
+      return result.events;
+    }
+    if (bagBefore && !this.checkTableInvariants(result.state, JSON.stringify(action))) {
+      this.tileBag.letters.splice(0, this.tileBag.letters.length, ...bagBefore);
+      return [{ type: "action_rejected", message: "The server blocked an action that would corrupt the round." }];
+    }
+
+    if (action.type === "join_table") {
+      seatedPlayerIds.push(joiningPlayerId);
+    } else if (action.type === "leave_table") {
+      seatedPlayerIds.splice(action.seat, 1);
+    }
+    this.playerGameStates = new Map(seatedPlayerIds.map((playerId, seat) => [playerId, result.state[seat]]));
+    this.roundReplay?.actions.push(action);
+    return result.events;
+  }
+
+  // Logs every broken invariant with what caused it; only runs when state checks are enabled.
+  private checkTableInvariants(boards: GameState[], cause: string): boolean {
+    if (!this.checkStateInvariants) {
+      return true;
+    }
+    const violations = validateGameState(boards, this.tileBag);
+    if (violations.length === 0) {
+      return true;
+    }
+    console.error(`[state-check] room ${this.roomId} after ${cause}: ${JSON.stringify(violations)}`);
+    this.appendActionLog("state_violation", "", "", violations.map((violation) => violation.code).join(","));
+    return false;
+  }
+
+  private sendRejection(client: Client, rejection: ActionRejection): void {
+    const details: Record<string, unknown> = {};
+    if (rejection.orphanTileIds) {
+      details.orphanTileIds = rejection.orphanTileIds;
+    }
+    this.sendActionRejected(client, rejection.message, details);
   }
 
   private buildGameSnapshot(gameState: GameState, reason: string, actorClientId?: string): {
-    gameState: GameState;
+    gameState: PublicGameState;
     bagCount: number;
     nextPressureAt: number;
     reason: string;
@@ -474,9 +1102,9 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     serverTime: number;
   } {
     return {
-      gameState,
-      bagCount: this.sharedBagCount,
-      nextPressureAt: 0,
+      gameState: toPublicGameState(gameState, this.tileBag),
+      bagCount: this.tileBag.letters.length,
+      nextPressureAt: this.state.nextPressureAt,
       reason,
       actorClientId,
       serverTime: Date.now(),
@@ -500,7 +1128,12 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
   private getOrCreatePlayerGameState(sessionId: string): GameState {
     const playerId = this.getPlayerIdForSession(sessionId);
     if (!playerId) {
-      return createGame({ players: Math.max(2, Math.min(4, this.clients.length)) });
+      return createGame({
+        players: Math.max(2, Math.min(4, this.clients.length)),
+        variant: this.variant,
+        language: this.language,
+        tradePolicy: this.tradePolicy,
+      });
     }
 
     const existing = this.playerGameStates.get(playerId);
@@ -509,53 +1142,87 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
       return existing;
     }
 
-    const players = this.activeRoundPlayers > 0 ? this.activeRoundPlayers : Math.min(4, this.getConnectedPlayerCount());
-    const created = createGame({ players: Math.max(2, players) });
-    if (this.sharedBagCount > 0 && created.drawPile.length !== this.sharedBagCount) {
-      this.resizeBag(created, this.sharedBagCount);
+    this.dispatch({ type: "join_table" }, playerId);
+    const created = this.playerGameStates.get(playerId);
+    if (!created) {
+      return createGame({
+        players: Math.max(2, Math.min(4, this.clients.length)),
+        variant: this.variant,
+        language: this.language,
+        tradePolicy: this.tradePolicy,
+      });
     }
-    this.playerGameStates.set(playerId, created);
-    this.syncPlayerBoardSnapshot(playerId, created);
+    this.syncAllBoardSnapshotsFromGames();
     return created;
   }
 
-  private clearRoundGames(): void {
-    this.playerGameStates.clear();
-    this.state.boards.clear();
-    this.activeRoundPlayers = 0;
-    this.sharedBagCount = 0;
+  private schedulePressureTick(): void {
+    this.clearPressureTimer();
+    const firstBoard = this.playerGameStates.values().next().value as GameState | undefined;
+    if (this.state.phase !== "playing" || !firstBoard || firstBoard.config.variant === "classic") {
+      return;
+    }
+
+    const delayMs = nextPressureDelayMs(firstBoard.config, this.pressureRandom);
+    this.state.nextPressureAt = Date.now() + delayMs;
+    this.pressureTimer = setTimeout(() => {
+      this.pressureTimer = null;
+      this.handlePressureTick();
+    }, delayMs);
   }
 
-  private synchronizePlayerBagSizes(targetCount: number): void {
-    for (const [playerId, gameState] of this.playerGameStates.entries()) {
-      if (gameState.drawPile.length !== targetCount) {
-        this.resizeBag(gameState, targetCount);
-        this.syncPlayerBoardSnapshot(playerId, gameState);
-      }
+  private clearPressureTimer(): void {
+    if (this.pressureTimer) {
+      clearTimeout(this.pressureTimer);
+      this.pressureTimer = null;
     }
+    this.state.nextPressureAt = 0;
   }
 
-  private resizeBag(gameState: GameState, targetCount: number): void {
-    if (gameState.drawPile.length > targetCount) {
-      gameState.drawPile.splice(targetCount);
+  private handlePressureTick(): void {
+    if (this.state.phase !== "playing" || this.playerGameStates.size === 0) {
       return;
     }
 
-    const missing = targetCount - gameState.drawPile.length;
-    if (missing <= 0) {
+    const events = this.dispatch({ type: "pressure_tick" });
+    if (findRejection(events)) {
       return;
     }
+    this.syncAllBoardSnapshotsFromGames();
+
+    const roundLost = events.some((event) => event.type === "round_lost");
+    if (roundLost) {
+      this.state.nextPressureAt = 0;
+    } else {
+      this.schedulePressureTick();
+    }
+    this.appendActionLog("pressure_tick", "", "", roundLost ? "bag empty" : String(this.state.nextPressureAt));
+    this.sendSnapshotsToAllPlayers("pressure_tick");
 
-    const refillLetters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
-    for (let i = 0; i < missing; i += 1) {
-      const slot = Math.floor(Math.random() * refillLetters.length);
-      gameState.drawPile.push(refillLetters[slot] ?? "E");
+    if (roundLost) {
+      void this.finalizeNoWinner("The bag ran dry under pressure. Nobody won this round.");
     }
   }
 
-  private getCurrentBagCountFromRound(): number {
-    const firstState = this.playerGameStates.values().next().value as GameState | undefined;
-    return firstState ? firstState.drawPile.length : 0;
+  private clearRoundGames(revealBoards = false): void {
+    this.clearPressureTimer();
+    this.clearBotTimers();
+    this.playerGameStates.clear();
+    this.roundReplay = null;
+    this.rottenPlayerIds.clear();
+    this.lastHintAtByPlayerId.clear();
+    if (revealBoards) {
+      // Finished boards stay on the state until the next round starts so everyone can inspect them.
+      this.boardsRevealed = true;
+      this.refreshBoardViews();
+    } else {
+      this.state.boards.clear();
+      this.boardsRevealed = false;
+    }
+    this.activeRoundPlayers = 0;
+    this.tileBag = { letters: [] };
+    this.roundSeed = 0;
+    this.roundRandom = Math.random;
   }
 
   private async finalizeWinner(winnerPlayerId: string): Promise<void> {
@@ -566,18 +1233,19 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     const winnerEntry = this.getPlayerEntryByPlayerId(winnerPlayerId);
     const winner = winnerEntry?.player;
     if (!winner) {
-      this.finalizeNoWinner("Winner left the room before scoring.");
+      await this.finalizeNoWinner("Winner left the room before scoring.");
       return;
     }
 
     const winningGameState = this.playerGameStates.get(winnerPlayerId);
     if (!winningGameState) {
-      this.finalizeNoWinner("Winner state was unavailable.");
+      await this.finalizeNoWinner("Winner state was unavailable.");
       return;
     }
 
     const winningBoardTiles = winningGameState.tiles.filter(isBoardTile).map((tile) => ({ ...tile }));
-    const longestWord = computeLongestWordFromBoard(winningGameState);
+    const longestWord = findLongestBoardWord(winningGameState);
+    const scores = this.scoreRoundBoards();
     if (longestWord.length > winner.longestWord.length) {
       winner.longestWord = longestWord;
     }
@@ -587,6 +1255,7 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
       player.gamesPlayed += 1;
       playerNames.push(player.name);
     });
+    const rottenPlayers = this.getRottenPlayerNames();
 
     winner.wins += 1;
     this.state.lastWinnerName = winner.name;
@@ -594,33 +1263,95 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     this.state.roundsPlayed += 1;
     this.state.phase = "lobby";
 
-    const snapshot = await statsStore.recordMatch({
-      roomId: this.roomId,
-      winnerName: winner.name,
-      longestWord,
-      players: playerNames,
-    });
+    const roundSeed = this.roundSeed;
+    const replay = this.roundReplay;
+    this.appendActionLog("game_won", winnerPlayerId, winner.name, longestWord || "no-word");
+    this.appendActionLog("round_seed", "", "", String(roundSeed));
+    this.recordDailyResult(true);
+    this.clearRoundGames(true);
+
+    // A daily round is played alone, so it goes on the daily leaderboard instead of the match history.
+    if (!this.daily) {
+      const snapshot = await statsStore.recordMatch({
+        roomId: this.roomId,
+        winnerName: winner.name,
+        longestWord,
+        players: playerNames,
+        seed: roundSeed,
+        replay,
+        scores: scores.map(({ name, total }) => ({ name, score: total })),
+        rottenPlayers,
+      });
+      this.broadcast("stats_snapshot", snapshot);
+    }
 
-    this.broadcast("stats_snapshot", snapshot);
     this.broadcast("game_finished", {
       winnerName: winner.name,
       longestWord,
       winnerClientId: winner.clientId,
       winningBoardTiles,
+      scores,
     });
     this.broadcast("room_notice", {
       level: "info",
       message: `${winner.name} won the round${longestWord ? ` with longest word ${longestWord}` : ""}.`,
     });
-    this.appendActionLog("game_won", winnerPlayerId, winner.name, longestWord || "no-word");
-    this.clearRoundGames();
     this.updateRoomMetadata();
   }
 
-  private finalizeNoWinner(message: string): void {
+  private getRottenPlayerNames(): string[] {
+    return [...this.rottenPlayerIds]
+      .map((playerId) => this.getPlayerEntryByPlayerId(playerId)?.player.name)
+      .filter((name): name is string => Boolean(name));
+  }
+
+  private scoreRoundBoards(): RoundScore[] {
+    const scores: RoundScore[] = [];
+    for (const [playerId, gameState] of this.playerGameStates.entries()) {
+      const name = this.getPlayerEntryByPlayerId(playerId)?.player.name;
+      if (!name) {
+        continue;
+      }
+      const { wordPoints, lengthBonus, shelfPenalty, total } = scoreBoard(gameState);
+      scores.push({ playerId, name, wordPoints, lengthBonus, shelfPenalty, total });
+    }
+    return scores.sort((a, b) => b.total - a.total);
+  }
+
+  private async finalizeNoWinner(message: string): Promise<void> {
+    const scores = this.scoreRoundBoards();
+    const playerNames: string[] = [];
+    this.state.players.forEach((player: PlayerState) => {
+      player.gamesPlayed += 1;
+      playerNames.push(player.name);
+    });
+    const rottenPlayers = this.getRottenPlayerNames();
+
+    this.state.roundsPlayed += 1;
     this.state.phase = "lobby";
+
+    const roundSeed = this.roundSeed;
+    const replay = this.roundReplay;
     this.appendActionLog("round_reset", "", "", message);
-    this.clearRoundGames();
+    this.appendActionLog("round_seed", "", "", String(roundSeed));
+    this.recordDailyResult(false);
+    this.clearRoundGames(true);
+
+    if (!this.daily) {
+      const snapshot = await statsStore.recordMatch({
+        roomId: this.roomId,
+        winnerName: "",
+        longestWord: "",
+        players: playerNames,
+        seed: roundSeed,
+        replay,
+        scores: scores.map(({ name, total }) => ({ name, score: total })),
+        rottenPlayers,
+      });
+      this.broadcast("stats_snapshot", snapshot);
+    }
+
+    this.broadcast("game_finished", { scores });
     this.broadcast("room_notice", {
       level: "info",
       message,
@@ -628,6 +1359,38 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     this.updateRoomMetadata();
   }
 
+  // Records the daily room's single board. The store keeps only the first result per player key and date.
+  private recordDailyResult(completed: boolean): void {
+    const date = this.state.dailyDate;
+    const [playerId, board] = [...this.playerGameStates.entries()][0] ?? [];
+    const player = playerId ? this.getPlayerEntryByPlayerId(playerId)?.player : undefined;
+    if (!this.daily || !date || !board || !player) {
+      return;
+    }
+
+    const result = {
+      name: player.name,
+      completed,
+      score: scoreBoard(board).total,
+      longestWord: findLongestBoardWord(board),
+      durationMs: Date.now() - this.roundStartedAt,
+    };
+    void statsStore
+      .recordDailyResult(date, result, this.dailyPlayerKey)
+      .then(async (recorded) => {
+        this.broadcast("room_notice", {
+          level: "info",
+          message: recorded
+            ? `Daily ${date} recorded: ${result.score} points in ${Math.round(result.durationMs / 1000)}s.`
+            : `You already have a daily result for ${date}; only the first attempt counts.`,
+        });
+        this.broadcast("daily_leaderboard", await statsStore.getDailyLeaderboard(date));
+      })
+      .catch((error: unknown) => {
+        console.error(`[daily] room ${this.roomId} could not record ${player.name}'s ${date} result:`, error);
+      });
+  }
+
   private ensurePlaying(client: Client): GameState | null {
     if (this.state.phase !== "playing") {
       this.sendActionRejected(client, "No active game in this room.");
@@ -663,8 +1426,8 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     this.updateRoomMetadata();
   }
 
-  private sendActionRejected(client: Client, message: string): void {
-    client.send("action_rejected", { message });
+  private sendActionRejected(client: Client, message: string, details: Record<string, unknown> = {}): void {
+    client.send("action_rejected", { ...details, message });
   }
 
   private sendNotice(client: Client, level: RoomNoticeLevel, message: string): void {
@@ -783,10 +1546,18 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
       return;
     }
     this.appendActionLog("remove_player", player.playerId, player.name, message);
+    // A daily player who leaves mid-round has used their attempt; it counts as unfinished.
+    if (this.state.phase === "playing") {
+      this.recordDailyResult(false);
+    }
 
+    this.clearBotTimer(sessionId);
     this.state.players.delete(sessionId);
     this.playerIdBySessionId.delete(sessionId);
-    this.playerGameStates.delete(player.playerId);
+    const seat = this.getSeatForPlayer(player.playerId);
+    if (seat >= 0) {
+      this.dispatch({ type: "leave_table", seat });
+    }
     this.state.boards.delete(player.playerId);
 
     const resumeToken = this.resumeTokenByPlayerId.get(player.playerId);
@@ -800,6 +1571,7 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     }
 
     if (this.getConnectedPlayerCount() < 2 && this.state.phase === "playing") {
+      this.appendActionLog("round_seed", "", "", String(this.roundSeed));
       this.clearRoundGames();
       this.state.phase = "lobby";
       this.broadcast("room_notice", {
@@ -826,31 +1598,62 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
 
     board.status = gameState.status;
     board.turn = gameState.turn;
-    board.drawPileCount = gameState.drawPile.length;
-    board.rows = gameState.config.rows;
-    board.cols = gameState.config.cols;
+    board.drawPileCount = this.tileBag.letters.length;
+    const bounds = getBoardBounds(gameState);
+    board.boardMode = gameState.config.boardMode;
+    board.minRow = bounds.minRow;
+    board.minCol = bounds.minCol;
+    board.rows = bounds.rows;
+    board.cols = bounds.cols;
     board.players = gameState.config.players;
     board.lastAction = gameState.lastAction;
+    board.tileCount = gameState.tiles.length;
+    board.stagingCount = gameState.tiles.filter((tile) => tile.zone === "staging").length;
+    board.tradeCount = gameState.tradeCount;
+    board.nextTradeAt =
+      gameState.lastTradeAt === null ? 0 : gameState.lastTradeAt + gameState.config.tradePolicy.cooldownMs;
     board.tiles.splice(0, board.tiles.length);
 
     for (const tile of gameState.tiles) {
       const boardTile = new BoardTileState();
       boardTile.id = tile.id;
       boardTile.letter = tile.letter;
+      boardTile.assignedLetter = tile.assignedLetter ?? "";
       boardTile.zone = tile.zone;
       boardTile.row = tile.row ?? -1;
       boardTile.col = tile.col ?? -1;
       board.tiles.push(boardTile);
     }
+    this.refreshBoardViews();
   }
 
   private syncAllBoardSnapshotsFromGames(): void {
-    this.state.boards.clear();
+    for (const playerId of [...this.state.boards.keys()]) {
+      if (!this.playerGameStates.has(playerId)) {
+        this.state.boards.delete(playerId);
+      }
+    }
     for (const [playerId, gameState] of this.playerGameStates.entries()) {
       this.syncPlayerBoardSnapshot(playerId, gameState);
     }
   }
 
+  // Each client's view holds only its own board while a round is running; finished rounds reveal every board.
+  private refreshBoardViews(): void {
+    for (const participant of this.clients) {
+      const view = participant.view ?? new StateView();
+      participant.view = view;
+      const playerId = this.getPlayerIdForSession(participant.sessionId);
+      this.state.boards.forEach((board: PlayerBoardState) => {
+        if (this.boardsRevealed || board.playerId === playerId) {
+          view.add(board);
+        } else if (view.has(board)) {
+          view.remove(board);
+        }
+      });
+    }
+  }
+
   private appendActionLog(type: string, actorPlayerId: string, actorName: string, details: string): void {
     const event = new ActionEventState();
     event.timestamp = Date.now();
@@ -858,7 +1661,7 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     event.actorPlayerId = actorPlayerId || "";
     event.actorName = actorName || "";
     event.details = details || "";
-    event.bagCount = this.sharedBagCount;
+    event.bagCount = this.tileBag.letters.length;
     event.turn = this.getCurrentRoundTurn();
     event.phase = this.state.phase;
     this.state.actionLog.push(event);
@@ -920,7 +1723,7 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
   private getFirstConnectedPlayerSessionId(): string {
     let first = "";
     this.state.players.forEach((player: PlayerState, sessionId: string) => {
-      if (!first && player.connected) {
+      if (!first && player.connected && !player.isBot) {
         first = sessionId;
       }
     });
@@ -929,8 +1732,8 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
 
   private getFirstPlayerId(): string {
     let firstPlayerId = "";
-    this.state.players.forEach((_player: PlayerState, clientId: string) => {
-      if (!firstPlayerId) {
+    this.state.players.forEach((player: PlayerState, clientId: string) => {
+      if (!firstPlayerId && !player.isBot) {
         firstPlayerId = clientId;
       }
     });
@@ -941,6 +1744,10 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     const ownerName = this.state.players.get(this.state.ownerClientId)?.name ?? "";
     this.setMetadata({
       phase: this.state.phase,
+      variant: this.variant,
+      language: this.language,
+      casual: this.casual,
+      daily: this.daily,
       ownerName,
       playerCount: this.state.players.size,
       connectedCount: this.getConnectedPlayerCount(),
@@ -955,6 +1762,8 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
   }
 
   onDispose(): void {
+    this.clearPressureTimer();
+    this.clearBotTimers();
     if (this.reservationSweepTimer) {
       clearInterval(this.reservationSweepTimer);
       this.reservationSweepTimer = null;
@@ -966,10 +1775,17 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
     if (this.roomSlotClaimed) {
       return;
     }
-    if (BisquitsRoom.activeRoomCount >= BisquitsRoom.MAX_ACTIVE_ROOMS) {
-      throw new Error(`Only ${BisquitsRoom.MAX_ACTIVE_ROOMS} rooms can exist at once.`);
+    if (this.daily) {
+      if (BisquitsRoom.activeDailyRoomCount >= BisquitsRoom.MAX_ACTIVE_DAILY_ROOMS) {
+        throw new Error(`Only ${BisquitsRoom.MAX_ACTIVE_DAILY_ROOMS} daily rooms can exist at once.`);
+      }
+      BisquitsRoom.activeDailyRoomCount += 1;
+    } else {
+      if (BisquitsRoom.activeRoomCount >= BisquitsRoom.MAX_ACTIVE_ROOMS) {
+        throw new Error(`Only ${BisquitsRoom.MAX_ACTIVE_ROOMS} rooms can exist at once.`);
+      }
+      BisquitsRoom.activeRoomCount += 1;
     }
-    BisquitsRoom.activeRoomCount += 1;
     this.roomSlotClaimed = true;
   }
 
@@ -978,6 +1794,10 @@ export class BisquitsRoom extends Room<BisquitsRoomState> {
       return;
     }
     this.roomSlotClaimed = false;
-    BisquitsRoom.activeRoomCount = Math.max(0, BisquitsRoom.activeRoomCount - 1);
+    if (this.daily) {
+      BisquitsRoom.activeDailyRoomCount = Math.max(0, BisquitsRoom.activeDailyRoomCount - 1);
+    } else {
+      BisquitsRoom.activeRoomCount = Math.max(0, BisquitsRoom.activeRoomCount - 1);
+    }
   }
 }
@@ -1,4 +1,4 @@
-import { ArraySchema, MapSchema, Schema, defineTypes } from "@colyseus/schema";
+import { ArraySchema, MapSchema, Schema, defineTypes, view } from "@colyseus/schema";
 
 export type RoomPhase = "lobby" | "playing";
 
@@ -12,6 +12,9 @@ export class PlayerState extends Schema {
   declare wins: number;
   declare gamesPlayed: number;
   declare longestWord: string;
+  // Server-driven seats added by the host; they never hold a client connection.
+  declare isBot: boolean;
+  declare botDifficulty: string;
 
   constructor() {
     super();
@@ -24,6 +27,8 @@ export class PlayerState extends Schema {
     this.wins = 0;
     this.gamesPlayed = 0;
     this.longestWord = "";
+    this.isBot = false;
+    this.botDifficulty = "";
   }
 }
 
@@ -37,11 +42,15 @@ defineTypes(PlayerState, {
   wins: "number",
   gamesPlayed: "number",
   longestWord: "string",
+  isBot: "boolean",
+  botDifficulty: "string",
 });
 
 export class BoardTileState extends Schema {
   declare id: string;
   declare letter: string;
+  // Empty unless the tile is a blank its player has given a letter.
+  declare assignedLetter: string;
   declare zone: string;
   declare row: number;
   declare col: number;
@@ -50,6 +59,7 @@ export class BoardTileState extends Schema {
     super();
     this.id = "";
     this.letter = "";
+    this.assignedLetter = "";
     this.zone = "staging";
     this.row = -1;
     this.col = -1;
@@ -59,6 +69,7 @@ export class BoardTileState extends Schema {
 defineTypes(BoardTileState, {
   id: "string",
   letter: "string",
+  assignedLetter: "string",
   zone: "string",
   row: "number",
   col: "number",
@@ -69,10 +80,19 @@ export class PlayerBoardState extends Schema {
   declare status: string;
   declare turn: number;
   declare drawPileCount: number;
+  declare boardMode: string;
+  // Bounding box of the board: fixed boards span their grid, expanding boards grow around their tiles.
+  declare minRow: number;
+  declare minCol: number;
   declare rows: number;
   declare cols: number;
   declare players: number;
   declare lastAction: string;
+  declare tileCount: number;
+  declare stagingCount: number;
+  declare tradeCount: number;
+  // Server time the board's trade cooldown ends; 0 when it can trade right away.
+  declare nextTradeAt: number;
   declare tiles: ArraySchema<BoardTileState>;
 
   constructor() {
@@ -81,10 +101,17 @@ export class PlayerBoardState extends Schema {
     this.status = "running";
     this.turn = 0;
     this.drawPileCount = 0;
+    this.boardMode = "fixed";
+    this.minRow = 1;
+    this.minCol = 1;
     this.rows = 0;
     this.cols = 0;
     this.players = 0;
     this.lastAction = "";
+    this.tileCount = 0;
+    this.stagingCount = 0;
+    this.tradeCount = 0;
+    this.nextTradeAt = 0;
     this.tiles = new ArraySchema<BoardTileState>();
   }
 }
@@ -94,13 +121,49 @@ defineTypes(PlayerBoardState, {
   status: "string",
   turn: "number",
   drawPileCount: "number",
+  boardMode: "string",
+  minRow: "number",
+  minCol: "number",
   rows: "number",
   cols: "number",
   players: "number",
   lastAction: "string",
+  tileCount: "number",
+  stagingCount: "number",
+  tradeCount: "number",
+  nextTradeAt: "number",
   tiles: [BoardTileState],
 });
 
+// Letters are private: a board's tiles, and its last action text that names letters and cells, only
+// reach clients whose StateView holds that board. Everyone else sees the summary fields above.
+view()(PlayerBoardState.prototype, "lastAction");
+view()(PlayerBoardState.prototype, "tiles");
+
+// The room's trade rules, mirrored from the engine's TradePolicy so clients can explain them.
+export class TradePolicyState extends Schema {
+  declare tilesPerTrade: number;
+  declare cooldownMs: number;
+  // 0 means no limit.
+  declare maxTradesPerRound: number;
+  declare pressureTickOnTrade: boolean;
+
+  constructor() {
+    super();
+    this.tilesPerTrade = 3;
+    this.cooldownMs = 0;
+    this.maxTradesPerRound = 0;
+    this.pressureTickOnTrade = false;
+  }
+}
+
+defineTypes(TradePolicyState, {
+  tilesPerTrade: "number",
+  cooldownMs: "number",
+  maxTradesPerRound: "number",
+  pressureTickOnTrade: "boolean",
+});
+
 export class ActionEventState extends Schema {
   declare timestamp: number;
   declare type: string;
@@ -140,10 +203,19 @@ export class BisquitsRoomState extends Schema {
   declare boards: MapSchema<PlayerBoardState>;
   declare actionLog: ArraySchema<ActionEventState>;
   declare phase: RoomPhase;
+  declare variant: string;
+  declare language: string;
+  // Casual rooms trade competitive fairness for help: hints are only served there.
+  declare casual: boolean;
+  // Daily rooms play the date's fixed deal; `dailyDate` is that date once a round has been dealt.
+  declare daily: boolean;
+  declare dailyDate: string;
+  declare tradePolicy: TradePolicyState;
   declare ownerClientId: string;
   declare lastWinnerName: string;
   declare lastLongestWord: string;
   declare roundsPlayed: number;
+  declare nextPressureAt: number;
   declare createdAt: number;
 
   constructor() {
@@ -152,10 +224,17 @@ export class BisquitsRoomState extends Schema {
     this.boards = new MapSchema<PlayerBoardState>();
     this.actionLog = new ArraySchema<ActionEventState>();
     this.phase = "lobby";
+    this.variant = "bisquits";
+    this.language = "en";
+    this.casual = false;
+    this.daily = false;
+    this.dailyDate = "";
+    this.tradePolicy = new TradePolicyState();
     this.ownerClientId = "";
     this.lastWinnerName = "";
     this.lastLongestWord = "";
     this.roundsPlayed = 0;
+    this.nextPressureAt = 0;
     this.createdAt = Date.now();
   }
 }
@@ -165,9 +244,16 @@ defineTypes(BisquitsRoomState, {
   boards: { map: PlayerBoardState },
   actionLog: [ActionEventState],
   phase: "string",
+  variant: "string",
+  language: "string",
+  casual: "boolean",
+  daily: "boolean",
+  dailyDate: "string",
+  tradePolicy: TradePolicyState,
   ownerClientId: "string",
   lastWinnerName: "string",
   lastLongestWord: "string",
   roundsPlayed: "number",
+  nextPressureAt: "number",
   createdAt: "number",
 });
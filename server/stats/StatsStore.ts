@@ -1,14 +1,32 @@
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { dirname, resolve } from "node:path";
+import type { RoundReplay } from "../../shared/game/actions";
 
 const MAX_RECENT_MATCHES = 25;
+// Daily leaderboards older than this many days are dropped when a new day is recorded.
+const MAX_DAILY_DAYS = 30;
 
 export interface MatchRecord {
   roomId: string;
+  // Empty when the round ended without a winner.
   winnerName: string;
   longestWord: string;
   players: string[];
   playedAt: string;
+  // Absent on matches recorded before rounds were seeded.
+  seed?: number;
+  // Final board score per player, highest first. Absent on matches recorded before scoring.
+  scores?: PlayerScore[];
+  // Players whose final plate went rotten during the round. Absent on older matches.
+  rottenPlayers?: string[];
+  // The deal and accepted actions, for replaying the round. Kept in the stats file only; snapshots sent
+  // to rooms leave it out. Absent on older matches.
+  replay?: RoundReplay;
+}
+
+export interface PlayerScore {
+  name: string;
+  score: number;
 }
 
 export interface PlayerAggregate {
@@ -16,6 +34,8 @@ export interface PlayerAggregate {
   gamesPlayed: number;
   wins: number;
   longestWord: string;
+  // Final plates served with invalid words or loose tiles. Absent on older aggregates.
+  rottenPlates?: number;
   updatedAt: string;
 }
 
@@ -25,11 +45,39 @@ export interface StatsSnapshot {
   players: Record<string, PlayerAggregate>;
 }
 
+// One finished daily challenge. Only a player's first attempt of the day is kept.
+export interface DailyResult {
+  name: string;
+  completed: boolean;
+  score: number;
+  longestWord: string;
+  durationMs: number;
+  finishedAt: string;
+}
+
+export interface DailyLeaderboard {
+  date: string;
+  // Completed plates first, then by score, then by the faster time.
+  results: DailyResult[];
+}
+
+// Daily results by date, then by the player key the browser sent (or the normalized name without one).
+// Kept out of `StatsSnapshot`, which is sent to every room on join.
+type DailyResults = Record<string, Record<string, DailyResult>>;
+
+interface StoredStats extends StatsSnapshot {
+  daily?: DailyResults;
+}
+
 interface RecordMatchInput {
   roomId: string;
   winnerName: string;
   longestWord: string;
   players: string[];
+  seed: number;
+  scores: PlayerScore[];
+  rottenPlayers: string[];
+  replay: RoundReplay | null;
 }
 
 function normalizeName(name: string): string {
@@ -39,13 +87,25 @@ function normalizeName(name: string): string {
 function cloneSnapshot(snapshot: StatsSnapshot): StatsSnapshot {
   return {
     totalMatches: snapshot.totalMatches,
-    recentMatches: snapshot.recentMatches.map((match) => ({ ...match, players: [...match.players] })),
+    recentMatches: snapshot.recentMatches.map(({ replay, ...match }) => ({
+      ...match,
+      players: [...match.players],
+      scores: match.scores?.map((entry) => ({ ...entry })),
+      rottenPlayers: match.rottenPlayers ? [...match.rottenPlayers] : undefined,
+    })),
     players: Object.fromEntries(
       Object.entries(snapshot.players).map(([key, player]) => [key, { ...player }]),
     ),
   };
 }
 
+function compareDailyResults(a: DailyResult, b: DailyResult): number {
+  if (a.completed !== b.completed) {
+    return a.completed ? -1 : 1;
+  }
+  return b.score - a.score || a.durationMs - b.durationMs || a.finishedAt.localeCompare(b.finishedAt);
+}
+
 function emptySnapshot(): StatsSnapshot {
   return {
     totalMatches: 0,
@@ -57,6 +117,7 @@ function emptySnapshot(): StatsSnapshot {
 export class StatsStore {
   private readonly filePath: string;
   private snapshot: StatsSnapshot = emptySnapshot();
+  private daily: DailyResults = {};
   private writeQueue: Promise<void> = Promise.resolve();
 
   constructor(filePath = resolve(process.cwd(), "server/data/stats.json")) {
@@ -67,14 +128,16 @@ export class StatsStore {
     await mkdir(dirname(this.filePath), { recursive: true });
     try {
       const raw = await readFile(this.filePath, "utf8");
-      const parsed = JSON.parse(raw) as StatsSnapshot;
+      const parsed = JSON.parse(raw) as StoredStats;
       this.snapshot = {
         totalMatches: Number(parsed.totalMatches) || 0,
         recentMatches: Array.isArray(parsed.recentMatches) ? parsed.recentMatches.slice(0, MAX_RECENT_MATCHES) : [],
         players: typeof parsed.players === "object" && parsed.players ? parsed.players : {},
       };
+      this.daily = typeof parsed.daily === "object" && parsed.daily ? parsed.daily : {};
     } catch {
       this.snapshot = emptySnapshot();
+      this.daily = {};
       await this.persist();
     }
   }
@@ -91,6 +154,10 @@ export class StatsStore {
       longestWord: input.longestWord,
       players: [...input.players],
       playedAt,
+      seed: input.seed,
+      scores: input.scores.map((entry) => ({ ...entry })),
+      rottenPlayers: [...input.rottenPlayers],
+      ...(input.replay ? { replay: structuredClone(input.replay) } : {}),
     };
 
     this.snapshot.totalMatches += 1;
@@ -110,6 +177,13 @@ export class StatsStore {
       this.snapshot.players[key] = existing;
     }
 
+    for (const playerName of input.rottenPlayers) {
+      const player = this.snapshot.players[normalizeName(playerName)];
+      if (player) {
+        player.rottenPlates = (player.rottenPlates ?? 0) + 1;
+      }
+    }
+
     const winnerKey = normalizeName(input.winnerName);
     const winner = this.snapshot.players[winnerKey];
     if (winner) {
@@ -124,9 +198,32 @@ export class StatsStore {
     return cloneSnapshot(this.snapshot);
   }
 
+  async getDailyLeaderboard(date: string): Promise<DailyLeaderboard> {
+    const results = Object.values(this.daily[date] ?? {}).map((result) => ({ ...result }));
+    return { date, results: results.sort(compareDailyResults) };
+  }
+
+  // Returns false without changing anything when the player already has a result for that date.
+  async recordDailyResult(date: string, result: Omit<DailyResult, "finishedAt">, playerKey = ""): Promise<boolean> {
+    const key = playerKey ? `key:${playerKey}` : normalizeName(result.name);
+    const day = this.daily[date] ?? {};
+    if (day[key]) {
+      return false;
+    }
+
+    day[key] = { ...result, finishedAt: new Date().toISOString() };
+    const keptDates = Object.keys({ ...this.daily, [date]: day })
+      .sort()
+      .slice(-MAX_DAILY_DAYS);
+    this.daily = Object.fromEntries(keptDates.map((kept) => [kept, kept === date ? day : this.daily[kept]]));
+    await this.persist();
+    return true;
+  }
+
   private async persist(): Promise<void> {
     this.writeQueue = this.writeQueue.then(async () => {
-      await writeFile(this.filePath, `${JSON.stringify(this.snapshot, null, 2)}\n`, "utf8");
+      const stored: StoredStats = { ...this.snapshot, daily: this.daily };
+      await writeFile(this.filePath, `${JSON.stringify(stored, null, 2)}\n`, "utf8");
     });
     await this.writeQueue;
   }
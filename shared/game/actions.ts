@@ -0,0 +1,348 @@
+import type { WordDictionary } from "./dictionary";
+import {
+  analyzeBoardConnectivity,
+  applyTablePressureTick,
+  assignBlankLetter,
+  canServeRound,
+  checkTileTranslation,
+  checkTrade,
+  createSeededRandom,
+  createTable,
+  createTileBag,
+  isBlankTile,
+  joinTable,
+  leaveTable,
+  moveTile,
+  moveTiles,
+  normalizeBlankLetter,
+  redoMove,
+  returnTileToShelf,
+  rotBoard,
+  serveTable,
+  tradeTile,
+  undoMove,
+  validateBoardWords,
+  type GameConfig,
+  type GameState,
+  type RandomSource,
+  type TileBag,
+  type TileTranslationCheck,
+  type TradeCheck,
+  type WordRun,
+} from "./engine";
+
+// Boards are addressed by seat: their index in the table's board array. Seats are appended by
+// `join_table` and removed by `leave_table`, so a seed plus an action list replays a whole round.
+// `move_tile` may carry the letter a blank should read as once it lands. `trade_tile` carries the time
+// it was made in milliseconds, checked against the trade cooldown, so a replay sees the same cooldowns.
+export type GameAction =
+  | { type: "move_tile"; seat: number; tileId: string; row: number; col: number; letter?: string }
+  | { type: "move_tiles"; seat: number; tileIds: string[]; rowOffset: number; colOffset: number }
+  | { type: "return_tile"; seat: number; tileId: string }
+  | { type: "assign_blank"; seat: number; tileId: string; letter: string }
+  | { type: "undo_move"; seat: number }
+  | { type: "redo_move"; seat: number }
+  | { type: "trade_tile"; seat: number; tileId: string; now: number }
+  | { type: "serve_plate"; seat: number }
+  | { type: "pressure_tick" }
+  | { type: "join_table" }
+  | { type: "leave_table"; seat: number };
+
+export interface ActionRejection {
+  type: "action_rejected";
+  message: string;
+  orphanTileIds?: string[];
+}
+
+export type GameEvent =
+  | { type: "tile_moved"; seat: number; tileId: string; row: number; col: number }
+  | { type: "tiles_moved"; seat: number; tileIds: string[]; rowOffset: number; colOffset: number }
+  | { type: "tile_returned"; seat: number; tileId: string }
+  | { type: "blank_assigned"; seat: number; tileId: string; letter: string }
+  | { type: "move_undone"; seat: number }
+  | { type: "move_redone"; seat: number }
+  | { type: "tile_traded"; seat: number; tileId: string }
+  | { type: "table_served"; seat: number | null }
+  | { type: "seat_joined"; seat: number }
+  | { type: "seat_left"; seat: number }
+  | { type: "board_rotten"; seat: number; invalidWords: WordRun[]; orphanTileIds: string[] }
+  | { type: "round_won"; seat: number }
+  | { type: "round_lost" }
+  | ActionRejection;
+
+// Everything a room needs to replay a round: `boardCount` boards dealt from `config` (seed included),
+// then every action the reducer accepted, in order.
+export interface RoundReplay {
+  config: GameConfig;
+  boardCount: number;
+  actions: GameAction[];
+}
+
+export interface ActionContext {
+  bag: TileBag;
+  rng: RandomSource;
+  // When present, the final plate must spell real words.
+  dictionary?: WordDictionary | null;
+}
+
+export interface ActionResult {
+  state: GameState[];
+  events: GameEvent[];
+}
+
+export interface ActionLogEntry {
+  action: GameAction;
+  events: GameEvent[];
+}
+
+const TRANSLATION_REJECTIONS: Record<TileTranslationCheck["reason"], string> = {
+  "": "",
+  not_on_board: "Only tiles on your board can be moved together.",
+  off_board: "That move would slide bisquits off the board.",
+  collision: "That move would land on bisquits outside the selection.",
+};
+
+function reject(
+  state: GameState[],
+  message: string,
+  details: Pick<ActionRejection, "orphanTileIds"> = {},
+): ActionResult {
+  return { state, events: [{ type: "action_rejected", message, ...details }] };
+}
+
+function replaceSeat(state: GameState[], seat: number, board: GameState): GameState[] {
+  return state.map((current, index) => (index === seat ? board : current));
+}
+
+function describeTradeBlock(check: TradeCheck, now: number): string {
+  switch (check.reason) {
+    case "bag_low":
+      return "Not enough tiles remain to trade.";
+    case "limit":
+      return "You have used every trade this round allows.";
+    case "cooldown":
+      return `Your next trade is ready in ${Math.ceil((check.availableAt - now) / 1000)}s.`;
+    default:
+      return "";
+  }
+}
+
+// Why a blank can't take `letter`, or "" when it can.
+function checkBlankAssignment(board: GameState, tileId: string, letter: string): string {
+  const tile = board.tiles.find((item) => item.id === tileId);
+  if (!tile) {
+    return "Unknown tile.";
+  }
+  if (!isBlankTile(tile)) {
+    return "Only blank bisquits can be given a letter.";
+  }
+  if (!normalizeBlankLetter(board.config.language, letter)) {
+    return "A blank must stand for one letter of this game's tile set.";
+  }
+  return "";
+}
+
+export function findRejection(events: GameEvent[]): ActionRejection | undefined {
+  return events.find((event): event is ActionRejection => event.type === "action_rejected");
+}
+
+export function applyAction(state: GameState[], action: GameAction, ctx: ActionContext): ActionResult {
+  if (action.type === "join_table") {
+    if (state.length === 0) {
+      return reject(state, "No table to join.");
+    }
+    return {
+      state: [...state, joinTable(state[0].config, ctx.bag, state.length + 1)],
+      events: [{ type: "seat_joined", seat: state.length }],
+    };
+  }
+
+  if (action.type === "pressure_tick") {
+    if (state[0]?.config.variant === "classic") {
+      return reject(state, "Classic rules have no pressure ticks.");
+    }
+    const next = applyTablePressureTick(state, ctx.bag);
+    if (next === state) {
+      return reject(state, "The round is over.");
+    }
+    const lost = !next.some((board) => board.status === "running");
+    return { state: next, events: lost ? [{ type: "round_lost" }] : [{ type: "table_served", seat: null }] };
+  }
+
+  const current = state[action.seat];
+  if (!current) {
+    return reject(state, "Unknown player seat.");
+  }
+
+  if (action.type === "leave_table") {
+    return {
+      state: leaveTable(state, action.seat, ctx.bag, ctx.rng),
+      events: [{ type: "seat_left", seat: action.seat }],
+    };
+  }
+
+  if (current.status === "rotten") {
+    return reject(state, "Your plate went rotten. Wait for the next round.");
+  }
+  if (current.status !== "running") {
+    return reject(state, "The round is over.");
+  }
+
+  switch (action.type) {
+    case "move_tile": {
+      if (!current.tiles.some((tile) => tile.id === action.tileId)) {
+        return reject(state, "Unknown tile.");
+      }
+      const blankRejection = action.letter === undefined ? "" : checkBlankAssignment(current, action.tileId, action.letter);
+      if (blankRejection) {
+        return reject(state, blankRejection);
+      }
+      let next = moveTile(current, action.tileId, action.row, action.col);
+      const moved = next.tiles.find((tile) => tile.id === action.tileId);
+      const events: GameEvent[] = [
+        {
+          type: "tile_moved",
+          seat: action.seat,
+          tileId: action.tileId,
+          row: moved?.row ?? action.row,
+          col: moved?.col ?? action.col,
+        },
+      ];
+      if (action.letter !== undefined) {
+        next = assignBlankLetter(next, action.tileId, action.letter);
+        const letter = normalizeBlankLetter(next.config.language, action.letter);
+        events.push({ type: "blank_assigned", seat: action.seat, tileId: action.tileId, letter });
+      }
+      return { state: replaceSeat(state, action.seat, next), events };
+    }
+    case "assign_blank": {
+      const blankRejection = checkBlankAssignment(current, action.tileId, action.letter);
+      if (blankRejection) {
+        return reject(state, blankRejection);
+      }
+      const letter = normalizeBlankLetter(current.config.language, action.letter);
+      return {
+        state: replaceSeat(state, action.seat, assignBlankLetter(current, action.tileId, action.letter)),
+        events: [{ type: "blank_assigned", seat: action.seat, tileId: action.tileId, letter }],
+      };
+    }
+    case "move_tiles": {
+      const { tileIds, rowOffset, colOffset } = action;
+      const check = checkTileTranslation(current, tileIds, rowOffset, colOffset);
+      if (!check.valid) {
+        return reject(state, TRANSLATION_REJECTIONS[check.reason]);
+      }
+      return {
+        state: replaceSeat(state, action.seat, moveTiles(current, tileIds, rowOffset, colOffset)),
+        events: [{ type: "tiles_moved", seat: action.seat, tileIds: [...tileIds], rowOffset, colOffset }],
+      };
+    }
+    case "return_tile": {
+      const next = returnTileToShelf(current, action.tileId);
+      if (next === current) {
+        return reject(state, "Only tiles on the board can go back to the shelf.");
+      }
+      return {
+        state: replaceSeat(state, action.seat, next),
+        events: [{ type: "tile_returned", seat: action.seat, tileId: action.tileId }],
+      };
+    }
+    case "undo_move":
+    case "redo_move": {
+      const isUndo = action.type === "undo_move";
+      const next = isUndo ? undoMove(current) : redoMove(current);
+      if (next === current) {
+        return reject(state, isUndo ? "Nothing to undo." : "Nothing to redo.");
+      }
+      return {
+        state: replaceSeat(state, action.seat, next),
+        events: [{ type: isUndo ? "move_undone" : "move_redone", seat: action.seat }],
+      };
+    }
+    case "trade_tile": {
+      const check = checkTrade(current, ctx.bag, action.now);
+      if (!check.valid) {
+        return reject(state, describeTradeBlock(check, action.now));
+      }
+      if (!current.tiles.some((tile) => tile.id === action.tileId)) {
+        return reject(state, "Unknown tile.");
+      }
+      const traded = replaceSeat(state, action.seat, tradeTile(current, action.tileId, ctx.bag, ctx.rng, action.now));
+      const events: GameEvent[] = [{ type: "tile_traded", seat: action.seat, tileId: action.tileId }];
+
+      // Tables can make every trade push the whole table forward, as a pressure tick would.
+      const { pressureTickOnTrade } = current.config.tradePolicy;
+      const next = pressureTickOnTrade ? applyTablePressureTick(traded, ctx.bag) : traded;
+      if (next !== traded) {
+        const lost = !next.some((board) => board.status === "running");
+        events.push(lost ? { type: "round_lost" } : { type: "table_served", seat: null });
+      }
+      return { state: next, events };
+    }
+    case "serve_plate": {
+      if (current.tiles.some((tile) => tile.zone === "staging")) {
+        return reject(state, "Place all tray tiles on your board before serving.");
+      }
+
+      // Only the final plate is challenged: serving it with loose tiles or (when a dictionary is loaded)
+      // misspelled words rots the board instead of ending the round.
+      const runningSeats = state.filter((board) => board.status === "running").length;
+      const finalPlate = !canServeRound(current, ctx.bag, runningSeats);
+      const connectivity = analyzeBoardConnectivity(current);
+      if (!connectivity.connected && !finalPlate) {
+        return reject(
+          state,
+          `Connect every bisquit into one grid before serving (${connectivity.components.length} separate islands).`,
+          { orphanTileIds: connectivity.orphanTileIds },
+        );
+      }
+
+      const invalidWords = finalPlate && ctx.dictionary ? validateBoardWords(current, ctx.dictionary).invalidWords : [];
+      if (finalPlate && (!connectivity.connected || invalidWords.length > 0)) {
+        const next = rotBoard(state, action.seat, ctx.bag, ctx.rng);
+        const events: GameEvent[] = [
+          { type: "board_rotten", seat: action.seat, invalidWords, orphanTileIds: connectivity.orphanTileIds },
+        ];
+        if (!next.some((board) => board.status === "running")) {
+          events.push({ type: "round_lost" });
+        }
+        return { state: next, events };
+      }
+
+      const next = serveTable(state, ctx.bag);
+      const events: GameEvent[] = [{ type: "table_served", seat: action.seat }];
+      if (next[action.seat].status === "won") {
+        events.push({ type: "round_won", seat: action.seat });
+      }
+      return { state: next, events };
+    }
+  }
+}
+
+export function replayActions(
+  state: GameState[],
+  actions: GameAction[],
+  ctx: ActionContext,
+): { state: GameState[]; log: ActionLogEntry[] } {
+  let current = state;
+  const log: ActionLogEntry[] = [];
+  for (const action of actions) {
+    const result = applyAction(current, action, ctx);
+    current = result.state;
+    log.push({ action, events: result.events });
+  }
+  return { state: current, log };
+}
+
+// Deals the round again from its seed and replays its actions. Rounds that word-checked their final
+// plates need the same dictionary to rot the same boards.
+export function replayRound(
+  replay: RoundReplay,
+  dictionary: WordDictionary | null = null,
+): { state: GameState[]; log: ActionLogEntry[]; bag: TileBag } {
+  const { config, boardCount, actions } = replay;
+  const rng = createSeededRandom(config.seed);
+  const bag = createTileBag(rng, config.language, config.blankTiles);
+  const boards = createTable(config, boardCount, bag);
+  return { ...replayActions(boards, actions, { bag, rng, dictionary }), bag };
+}
@@ -0,0 +1,85 @@
+import {
+  createGame,
+  createPressureRandom,
+  createSeededRandom,
+  createTileBag,
+  DEFAULT_CONFIG,
+  DEFAULT_TRADE_POLICY,
+  nextPressureDelayMs,
+  type GameConfig,
+  type GameState,
+  type RandomSource,
+  type TileBag,
+} from "./engine";
+import { DEFAULT_LANGUAGE } from "./languages";
+
+// The daily challenge deals every player the same board for a UTC date. The seed comes from the date
+// and a server secret, and the rules below never change, so the bag, the opening shelf and the pressure
+// schedule all match. Without the secret nobody can deal a day's board before playing it.
+// The board is dealt for a table of two; the empty seat's bisquits are burned on every serve.
+export const DAILY_CHALLENGE_CONFIG: Omit<GameConfig, "seed"> = {
+  ...DEFAULT_CONFIG,
+  players: 2,
+  variant: "bisquits",
+  language: DEFAULT_LANGUAGE,
+  boardMode: "fixed",
+  blankTiles: 0,
+  pressureRangeMs: [DEFAULT_CONFIG.pressureRangeMs[0], DEFAULT_CONFIG.pressureRangeMs[1]],
+  tradePolicy: { ...DEFAULT_TRADE_POLICY },
+};
+
+export interface DailyChallenge {
+  date: string;
+  seed: number;
+  board: GameState;
+  bag: TileBag;
+  // Continues the deal's stream for trades and rotten plates.
+  rng: RandomSource;
+  pressureRandom: RandomSource;
+}
+
+const DAILY_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The UTC calendar date, as `YYYY-MM-DD`.
+export function getDailyDate(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function isDailyDate(value: unknown): value is string {
+  if (typeof value !== "string" || !DAILY_DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(time) && getDailyDate(time) === value;
+}
+
+// FNV-1a over the secret and the date, so neighbouring days get unrelated deals.
+export function getDailySeed(date: string, secret: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `bisquits-daily:${secret}:${date}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createDailyChallenge(date: string, secret: string): DailyChallenge {
+  const seed = getDailySeed(date, secret);
+  const rng = createSeededRandom(seed);
+  const bag = createTileBag(rng, DAILY_CHALLENGE_CONFIG.language, DAILY_CHALLENGE_CONFIG.blankTiles);
+  return {
+    date,
+    seed,
+    board: createGame({ ...DAILY_CHALLENGE_CONFIG, seed }, bag),
+    bag,
+    rng,
+    pressureRandom: createPressureRandom(seed),
+  };
+}
+
+// The delays between the date's first `count` pressure ticks, in milliseconds.
+export function getDailyPressureSchedule(date: string, secret: string, count: number): number[] {
+  const seed = getDailySeed(date, secret);
+  const random = createPressureRandom(seed);
+  return Array.from({ length: count }, () => nextPressureDelayMs({ ...DAILY_CHALLENGE_CONFIG, seed }, random));
+}
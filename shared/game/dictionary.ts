@@ -0,0 +1,36 @@
+export interface WordDictionary {
+  readonly size: number;
+  has(word: string): boolean;
+  // Every normalized entry, for solvers that search the word list.
+  words(): IterableIterator<string>;
+}
+
+export function normalizeWord(word: string): string {
+  return word.trim().toUpperCase();
+}
+
+// `normalize` folds entries and lookups alike; language packs pass one that drops accents they have no tiles for.
+export function createWordDictionary(words: Iterable<string>, normalize = normalizeWord): WordDictionary {
+  const entries = new Set<string>();
+  for (const word of words) {
+    const normalized = normalize(word);
+    if (normalized.length >= 2) {
+      entries.add(normalized);
+    }
+  }
+
+  return {
+    size: entries.size,
+    has: (word: string) => entries.has(normalize(word)),
+    words: () => entries.values(),
+  };
+}
+
+// Word lists are plain text with one word per line; blank lines and `#` comments are skipped.
+export function parseWordList(raw: string, normalize = normalizeWord): WordDictionary {
+  const words = raw
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+  return createWordDictionary(words, normalize);
+}
@@ -1,182 +1,255 @@
-export type GameStatus = "running" | "won" | "lost";
+import type { WordDictionary } from "./dictionary";
+import { DEFAULT_LANGUAGE, foldWordForPack, getLanguagePack, type LanguageCode } from "./languages";
+
+// A "rotten" board served an invalid final plate; it sits out while the rest of the table plays on.
+export type GameStatus = "running" | "won" | "lost" | "rotten";
 export type TileZone = "board" | "staging";
+// Fixed boards clamp placements to rows x cols; expanding boards accept any cell and grow around the tiles.
+export type BoardMode = "fixed" | "expanding";
+// "bisquits" serves on pressure ticks and burns a share for empty seats. "classic" plays Bananagrams:
+// split by player count, peel when a grid uses every tile, dump one-for-three, bananas when the bunch runs dry.
+export type GameVariant = "bisquits" | "classic";
+
+// How a table trades bisquits back into the bag. Cooldowns and limits apply to each board on its own.
+export interface TradePolicy {
+  // Fresh bisquits drawn for each one traded away.
+  tilesPerTrade: number;
+  // Minimum time between two trades from the same board; 0 for none.
+  cooldownMs: number;
+  // Trades each board may make in a round; 0 for no limit.
+  maxTradesPerRound: number;
+  // Every trade also runs a pressure tick for the whole table. Classic tables have no ticks and ignore it.
+  pressureTickOnTrade: boolean;
+}
 
 export interface GameConfig {
   rows: number;
   cols: number;
+  boardMode: BoardMode;
+  variant: GameVariant;
+  // Picks the tile distribution, letter values and dictionary for the round.
+  language: LanguageCode;
   players: number;
   initialVisibleTiles: number;
   pressureRangeMs: [number, number];
+  // Wildcard bisquits shuffled into the bag on top of the language pack's letters.
+  blankTiles: number;
+  tradePolicy: TradePolicy;
+  // Seeds the round's PRNG; replaying a seed with the same actions reproduces the game.
+  seed: number;
 }
 
+// Blank bisquits carry `BLANK_TILE` as their letter and read as `assignedLetter` once their player picks one.
 export interface Tile {
   id: string;
   letter: string;
+  assignedLetter?: string;
+  zone: TileZone;
+  row: number | null;
+  col: number | null;
+}
+
+export interface TilePlacement {
   zone: TileZone;
   row: number | null;
   col: number | null;
 }
 
+export interface PlacementChange {
+  tileId: string;
+  before: TilePlacement;
+  after: TilePlacement;
+}
+
+// Board rearrangements the player can step back through, newest last. Draws, trades and serves are
+// never recorded, so undo only ever moves tiles between the shelf and board cells.
+export interface MoveHistory {
+  undo: PlacementChange[][];
+  redo: PlacementChange[][];
+}
+
 export interface GameState {
   config: GameConfig;
   status: GameStatus;
   turn: number;
   nextTileId: number;
-  drawPile: string[];
   tiles: Tile[];
   lastAction: string;
+  history: MoveHistory;
+  tradeCount: number;
+  // When this board last traded, in the caller's clock; null before its first trade.
+  lastTradeAt: number | null;
+}
+
+// What a client may see of a board. The round seed would let a client replay the shared
+// bag's order, so it stays on the server; the bag itself is only ever sent as a count.
+export type PublicGameConfig = Omit<GameConfig, "seed">;
+
+export interface PublicGameState extends Omit<GameState, "config" | "history"> {
+  config: PublicGameConfig;
+  bagCount: number;
+  undoCount: number;
+  redoCount: number;
 }
 
 export type RandomSource = () => number;
 
+// One bag is shared by every board at the table. Engine calls draw from and return
+// letters to it in place; `letters[0]` is the next bisquit out of the bag.
+export interface TileBag {
+  letters: string[];
+}
+
+export type WordDirection = "across" | "down";
+
+// A run of two or more adjacent board tiles, read from its start cell; `tileIds` follow reading order.
+export interface WordRun {
+  word: string;
+  row: number;
+  col: number;
+  direction: WordDirection;
+  tileIds: string[];
+}
+
+export interface BoardWordValidation {
+  valid: boolean;
+  invalidWords: WordRun[];
+}
+
+export interface TradeCheck {
+  valid: boolean;
+  // Why the board can't trade: the bag can't cover the exchange, the cooldown is running, or the
+  // board has used every trade the round allows.
+  reason: "" | "bag_low" | "cooldown" | "limit";
+  // When the cooldown ends; 0 when it isn't running.
+  availableAt: number;
+}
+
+export interface TileTranslationCheck {
+  valid: boolean;
+  // Why the selection can't move: a tile isn't on the board, it would leave the grid, or it
+  // would land on a tile outside the selection.
+  reason: "" | "not_on_board" | "off_board" | "collision";
+}
+
+// The region a board currently spans; `minRow`/`minCol` may be zero or negative on expanding boards.
+export interface BoardBounds {
+  minRow: number;
+  minCol: number;
+  rows: number;
+  cols: number;
+}
+
+export interface BoardConnectivity {
+  connected: boolean;
+  // Tile ids grouped by orthogonally-connected island, largest island first.
+  components: string[][];
+  // Every board tile outside the largest island.
+  orphanTileIds: string[];
+}
+
+export type GameStateViolationCode =
+  | "duplicate_tile_id"
+  | "missing_cell"
+  | "stray_cell"
+  | "off_board"
+  | "shared_cell"
+  | "stale_tile_counter"
+  | "unknown_letter"
+  | "letter_surplus"
+  | "stray_assignment";
+
+// One broken invariant; `seat` is null when the problem spans the whole table and its bag.
+export interface GameStateViolation {
+  code: GameStateViolationCode;
+  seat: number | null;
+  tileIds: string[];
+  message: string;
+}
+
+export interface ScoringRules {
+  letterValues: Record<string, number>;
+  // Words at least this long earn `lengthBonusPerLetter` for each letter from this length on.
+  lengthBonusFrom: number;
+  lengthBonusPerLetter: number;
+  // Each tile still on the shelf costs its letter value times this multiplier.
+  shelfPenaltyMultiplier: number;
+}
+
+export interface ScoredWord extends WordRun {
+  points: number;
+}
+
+export interface BoardScore {
+  words: ScoredWord[];
+  wordPoints: number;
+  lengthBonus: number;
+  shelfPenalty: number;
+  total: number;
+}
+
+export const DEFAULT_TRADE_POLICY: TradePolicy = {
+  tilesPerTrade: 3,
+  cooldownMs: 0,
+  maxTradesPerRound: 0,
+  pressureTickOnTrade: false,
+};
+
 export const DEFAULT_CONFIG: GameConfig = {
   rows: 16,
   cols: 16,
+  boardMode: "fixed",
+  variant: "bisquits",
+  language: DEFAULT_LANGUAGE,
   players: 4,
   initialVisibleTiles: 21,
   pressureRangeMs: [4500, 8500],
+  blankTiles: 0,
+  tradePolicy: DEFAULT_TRADE_POLICY,
+  seed: 0,
 };
 
-const TILE_DISTRIBUTION = [
-  "J",
-  "K",
-  "Q",
-  "X",
-  "Z",
-  "J",
-  "K",
-  "Q",
-  "X",
-  "Z",
-  "B",
-  "C",
-  "F",
-  "H",
-  "M",
-  "P",
-  "V",
-  "W",
-  "Y",
-  "B",
-  "C",
-  "F",
-  "H",
-  "M",
-  "P",
-  "V",
-  "W",
-  "Y",
-  "B",
-  "C",
-  "F",
-  "H",
-  "M",
-  "P",
-  "V",
-  "W",
-  "Y",
-  "G",
-  "G",
-  "G",
-  "G",
-  "L",
-  "L",
-  "L",
-  "L",
-  "L",
-  "D",
-  "S",
-  "U",
-  "D",
-  "S",
-  "U",
-  "D",
-  "S",
-  "U",
-  "D",
-  "S",
-  "U",
-  "N",
-  "N",
-  "N",
-  "N",
-  "N",
-  "N",
-  "N",
-  "N",
-  "T",
-  "R",
-  "T",
-  "R",
-  "T",
-  "R",
-  "T",
-  "R",
-  "T",
-  "R",
-  "T",
-  "R",
-  "T",
-  "R",
-  "T",
-  "R",
-  "T",
-  "R",
-  "O",
-  "O",
-  "O",
-  "O",
-  "O",
-  "O",
-  "O",
-  "O",
-  "O",
-  "O",
-  "O",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "I",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "A",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-  "E",
-];
+export const BLANK_TILE = "?";
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  letterValues: getLanguagePack(DEFAULT_LANGUAGE).letterValues,
+  lengthBonusFrom: 5,
+  lengthBonusPerLetter: 2,
+  shelfPenaltyMultiplier: 1,
+};
+
+const MAX_MOVE_HISTORY = 100;
+const PRESSURE_SEED_SALT = 0x5bd1e995;
+// Expanding boards keep this many empty cells around the outermost tiles.
+const BOARD_GROWTH_MARGIN = 2;
+// Expanding boards are unbounded in play, but coordinates stay within a sane range.
+const MAX_BOARD_COORDINATE = 1000;
+
+export function normalizeSeed(seed: number): number {
+  return Number.isFinite(seed) ? Math.floor(Math.abs(seed)) >>> 0 : 0;
+}
+
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// mulberry32: small, fast and good enough to shuffle a bag of bisquits.
+export function createSeededRandom(seed: number): RandomSource {
+  let state = normalizeSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+// Pressure ticks draw from their own stream so the schedule depends only on the round seed, not on
+// how many trades were made along the way.
+export function createPressureRandom(seed: number): RandomSource {
+  return createSeededRandom(seed ^ PRESSURE_SEED_SALT);
+}
 
 function clampPlayers(players: number): number {
   return Math.max(2, Math.min(4, Math.round(players)));
@@ -191,22 +264,46 @@ function shuffle<T>(values: T[], rng: RandomSource): void {
   }
 }
 
+function resolveConfig(config: Partial<GameConfig>): GameConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    ...config,
+    players: clampPlayers(config.players ?? DEFAULT_CONFIG.players),
+    tradePolicy: { ...DEFAULT_TRADE_POLICY, ...config.tradePolicy },
+    seed: config.seed === undefined ? createRandomSeed() : normalizeSeed(config.seed),
+  };
+}
+
+function createEmptyBoard(config: GameConfig): GameState {
+  return {
+    config,
+    status: "running",
+    turn: 0,
+    nextTileId: 1,
+    tiles: [],
+    lastAction: "Game created.",
+    history: { undo: [], redo: [] },
+    tradeCount: 0,
+    lastTradeAt: null,
+  };
+}
+
 function cloneState(state: GameState): GameState {
   return {
     ...state,
-    config: { ...state.config },
-    drawPile: [...state.drawPile],
+    config: { ...state.config, tradePolicy: { ...state.config.tradePolicy } },
+    history: { undo: [...state.history.undo], redo: [...state.history.redo] },
     tiles: state.tiles.map((tile) => ({ ...tile })),
   };
 }
 
-function drawOne(drawPile: string[]): string | null {
-  const next = drawPile.shift();
+function drawOne(bag: TileBag): string | null {
+  const next = bag.letters.shift();
   return next ?? null;
 }
 
-function addVisibleTile(state: GameState): boolean {
-  const letter = drawOne(state.drawPile);
+function addVisibleTile(state: GameState, bag: TileBag): boolean {
+  const letter = drawOne(bag);
   if (!letter) {
     return false;
   }
@@ -222,23 +319,61 @@ function addVisibleTile(state: GameState): boolean {
   return true;
 }
 
-function burnOtherPlayers(state: GameState): boolean {
-  const hiddenDrawCount = state.config.players - 1;
-  if (state.drawPile.length < hiddenDrawCount) {
+// Seats that aren't playing, empty or rotten, still take their share of every round.
+function burnIdleSeats(bag: TileBag, idleSeats: number): boolean {
+  if (idleSeats <= 0) {
+    return true;
+  }
+  if (bag.letters.length < idleSeats) {
     return false;
   }
 
-  state.drawPile.splice(0, hiddenDrawCount);
+  bag.letters.splice(0, idleSeats);
   return true;
 }
 
-function canServeRound(state: GameState): boolean {
-  return state.drawPile.length > state.config.players;
+// Every seat of the configured table without a running board. Classic tables never burn.
+function countIdleSeats(config: GameConfig, runningSeats: number): number {
+  return config.variant === "classic" ? 0 : Math.max(0, config.players - runningSeats);
+}
+
+// Classic rules split 21 tiles each for up to four players, 15 for five or six and 11 beyond that.
+function classicSplitSize(boardCount: number): number {
+  if (boardCount <= 4) {
+    return 21;
+  }
+  return boardCount <= 6 ? 15 : 11;
+}
+
+function openingTileCount(config: GameConfig, boardCount: number): number {
+  return config.variant === "classic" ? classicSplitSize(boardCount) : config.initialVisibleTiles;
+}
+
+function clampBoardCell(config: GameConfig, row: number, col: number): { row: number; col: number } {
+  if (config.boardMode === "expanding") {
+    return {
+      row: Math.max(-MAX_BOARD_COORDINATE, Math.min(MAX_BOARD_COORDINATE, Math.round(row))),
+      col: Math.max(-MAX_BOARD_COORDINATE, Math.min(MAX_BOARD_COORDINATE, Math.round(col))),
+    };
+  }
+  return {
+    row: Math.max(1, Math.min(config.rows, Math.round(row))),
+    col: Math.max(1, Math.min(config.cols, Math.round(col))),
+  };
+}
+
+function isCellOnBoard(config: GameConfig, row: number, col: number): boolean {
+  const clamped = clampBoardCell(config, row, col);
+  return clamped.row === row && clamped.col === col;
 }
 
-function insertLetterIntoBag(drawPile: string[], letter: string, rng: RandomSource): void {
-  const slot = Math.floor(rng() * (drawPile.length + 1));
-  drawPile.splice(slot, 0, letter);
+function cellKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+function insertLetterIntoBag(bag: TileBag, letter: string, rng: RandomSource): void {
+  const slot = Math.floor(rng() * (bag.letters.length + 1));
+  bag.letters.splice(slot, 0, letter);
 }
 
 function moveTileToStaging(tile: Tile): void {
@@ -253,107 +388,604 @@ function moveTileToBoard(tile: Tile, row: number, col: number): void {
   tile.col = col;
 }
 
-function performServeRound(baseState: GameState): GameState {
+function recordMove(state: GameState, movedTiles: Tile[], before: TilePlacement[]): void {
+  const entry = movedTiles
+    .map((tile, index) => ({ tileId: tile.id, before: before[index], after: placementOf(tile) }))
+    .filter((change) => !samePlacement(change.before, change.after));
+  if (entry.length === 0) {
+    return;
+  }
+  state.history.undo.push(entry);
+  state.history.undo.splice(0, Math.max(0, state.history.undo.length - MAX_MOVE_HISTORY));
+  state.history.redo = [];
+}
+
+function isPlaced(tile: Tile): boolean {
+  return tile.zone === "board" && tile.row !== null && tile.col !== null;
+}
+
+function placementOf(tile: Tile): TilePlacement {
+  return { zone: tile.zone, row: tile.row, col: tile.col };
+}
+
+function samePlacement(a: TilePlacement, b: TilePlacement): boolean {
+  return a.zone === b.zone && a.row === b.row && a.col === b.col;
+}
+
+// An entry still applies while every tile it moved sits where the entry left it and nothing
+// else has since taken a cell it would move a tile back into.
+function canApplyPlacementChanges(state: GameState, entry: PlacementChange[], direction: "undo" | "redo"): boolean {
+  const involved = new Set(entry.map((change) => change.tileId));
+  return entry.every((change) => {
+    const tile = state.tiles.find((item) => item.id === change.tileId);
+    const [current, target] = direction === "undo" ? [change.after, change.before] : [change.before, change.after];
+    if (!tile || !samePlacement(placementOf(tile), current)) {
+      return false;
+    }
+    return (
+      target.zone !== "board" ||
+      !state.tiles.some(
+        (item) => !involved.has(item.id) && item.zone === "board" && item.row === target.row && item.col === target.col,
+      )
+    );
+  });
+}
+
+function stepMoveHistory(baseState: GameState, direction: "undo" | "redo"): GameState {
+  if (baseState.status !== "running") {
+    return baseState;
+  }
+
   const next = cloneState(baseState);
-  burnOtherPlayers(next);
-  addVisibleTile(next);
-  next.turn += 1;
+  const source = direction === "undo" ? next.history.undo : next.history.redo;
+  const target = direction === "undo" ? next.history.redo : next.history.undo;
+  let entry = source.pop();
+  while (entry && !canApplyPlacementChanges(next, entry, direction)) {
+    entry = source.pop();
+  }
+  if (!entry) {
+    return baseState;
+  }
+
+  for (const change of entry) {
+    const tile = next.tiles.find((item) => item.id === change.tileId) as Tile;
+    const placement = direction === "undo" ? change.before : change.after;
+    if (placement.zone === "board" && placement.row !== null && placement.col !== null) {
+      moveTileToBoard(tile, placement.row, placement.col);
+    } else {
+      moveTileToStaging(tile);
+    }
+  }
+  target.push(entry);
+  next.lastAction = direction === "undo" ? "Undid your last move." : "Redid your move.";
+  return next;
+}
+
+function performServeRound(baseStates: GameState[], bag: TileBag): GameState[] {
+  const next = baseStates.map(cloneState);
+  burnIdleSeats(bag, countIdleSeats(next[0].config, countRunningBoards(next)));
+  for (const state of next) {
+    if (state.status !== "running") {
+      continue;
+    }
+    addVisibleTile(state, bag);
+    state.turn += 1;
+  }
   return next;
 }
 
-export function createGame(
-  config: Partial<GameConfig> = {},
+function countRunningBoards(states: GameState[]): number {
+  return states.filter((state) => state.status === "running").length;
+}
+
+// Rotten boards don't stop the table; it runs while at least one board is still playing.
+function isTableRunning(states: GameState[]): boolean {
+  return (
+    countRunningBoards(states) > 0 && states.every((state) => state.status === "running" || state.status === "rotten")
+  );
+}
+
+export function createTileBag(
   rng: RandomSource = Math.random,
-): GameState {
-  const resolvedConfig: GameConfig = {
-    ...DEFAULT_CONFIG,
-    ...config,
-    players: clampPlayers(config.players ?? DEFAULT_CONFIG.players),
-  };
+  language: LanguageCode = DEFAULT_LANGUAGE,
+  blankTiles = 0,
+): TileBag {
+  const letters = [...getLanguagePack(language).distribution, ...Array.from({ length: blankTiles }, () => BLANK_TILE)];
+  shuffle(letters, rng);
+  return { letters };
+}
 
-  const drawPile = [...TILE_DISTRIBUTION];
-  shuffle(drawPile, rng);
+export function createTable(config: Partial<GameConfig>, boardCount: number, bag: TileBag): GameState[] {
+  const resolvedConfig = resolveConfig(config);
+  let boards = Array.from({ length: Math.max(1, Math.round(boardCount)) }, () => createEmptyBoard(resolvedConfig));
 
-  let state: GameState = {
-    config: resolvedConfig,
-    status: "running",
-    turn: 0,
-    nextTileId: 1,
-    drawPile,
-    tiles: [],
-    lastAction: "Game created.",
-  };
+  const openingTiles = openingTileCount(resolvedConfig, boards.length);
+  for (let i = 0; i < openingTiles; i += 1) {
+    if (!canServeRound(boards[0], bag, boards.length)) {
+      break;
+    }
+    boards = performServeRound(boards, bag);
+  }
 
-  for (let i = 0; i < resolvedConfig.initialVisibleTiles; i += 1) {
-    if (!canServeRound(state)) {
+  const lastAction =
+    resolvedConfig.variant === "classic"
+      ? "Split! Build your grid, peel when every tile is placed, and dump tiles you can't use."
+      : "Shelf stocked. Drag bisquits onto the board, trade stale ones for fresh, and keep serving.";
+  return boards.map((board) => ({ ...board, lastAction }));
+}
+
+export function createGame(config: Partial<GameConfig> = {}, bag?: TileBag): GameState {
+  const resolvedConfig = resolveConfig(config);
+  const { seed, language, blankTiles } = resolvedConfig;
+  return createTable(resolvedConfig, 1, bag ?? createTileBag(createSeededRandom(seed), language, blankTiles))[0];
+}
+
+// Deals a fresh shelf for a player sitting down at a table that is already running.
+// `boardCount` is the table size including the new seat; classic rules deal a split sized for it.
+export function joinTable(config: Partial<GameConfig>, bag: TileBag, boardCount = 1): GameState {
+  const board = createEmptyBoard(resolveConfig(config));
+  const openingTiles = openingTileCount(board.config, boardCount);
+  for (let i = 0; i < openingTiles; i += 1) {
+    if (!canServeRound(board, bag)) {
       break;
     }
-    state = performServeRound(state);
+    addVisibleTile(board, bag);
+    board.turn += 1;
   }
 
   return {
-    ...state,
-    lastAction: "Shelf stocked. Drag bisquits onto the board, trade one-for-three, and keep serving.",
+    ...board,
+    lastAction: "You sat down at the table. Drag bisquits onto the board and keep serving.",
   };
 }
 
-export function servePlate(baseState: GameState): GameState {
-  if (baseState.status !== "running") {
-    return baseState;
+export function toPublicGameState(state: GameState, bag: TileBag): PublicGameState {
+  const {
+    rows,
+    cols,
+    boardMode,
+    variant,
+    language,
+    players,
+    initialVisibleTiles,
+    pressureRangeMs,
+    blankTiles,
+    tradePolicy,
+  } = state.config;
+  return {
+    config: {
+      rows,
+      cols,
+      boardMode,
+      variant,
+      language,
+      players,
+      initialVisibleTiles,
+      pressureRangeMs: [pressureRangeMs[0], pressureRangeMs[1]],
+      blankTiles,
+      tradePolicy: { ...tradePolicy },
+    },
+    status: state.status,
+    turn: state.turn,
+    nextTileId: state.nextTileId,
+    tiles: state.tiles.map((tile) => ({ ...tile })),
+    lastAction: state.lastAction,
+    tradeCount: state.tradeCount,
+    lastTradeAt: state.lastTradeAt,
+    bagCount: bag.letters.length,
+    undoCount: state.history.undo.length,
+    redoCount: state.history.redo.length,
+  };
+}
+
+// Fixed boards always span their configured grid. Expanding boards start from that grid and grow
+// so the outermost tiles keep a margin of empty cells to build into.
+export function getBoardBounds(state: {
+  config: Pick<GameConfig, "rows" | "cols" | "boardMode">;
+  tiles: Tile[];
+}): BoardBounds {
+  const { rows, cols, boardMode } = state.config;
+  if (boardMode !== "expanding") {
+    return { minRow: 1, minCol: 1, rows, cols };
   }
 
-  if (!canServeRound(baseState)) {
-    return {
-      ...baseState,
-      status: "won",
-      lastAction: "You served the final plate of bisquits and won.",
-    };
+  let minRow = 1;
+  let minCol = 1;
+  let maxRow = rows;
+  let maxCol = cols;
+  for (const tile of state.tiles) {
+    if (!isPlaced(tile)) {
+      continue;
+    }
+    minRow = Math.min(minRow, (tile.row as number) - BOARD_GROWTH_MARGIN);
+    minCol = Math.min(minCol, (tile.col as number) - BOARD_GROWTH_MARGIN);
+    maxRow = Math.max(maxRow, (tile.row as number) + BOARD_GROWTH_MARGIN);
+    maxCol = Math.max(maxCol, (tile.col as number) + BOARD_GROWTH_MARGIN);
+  }
+  return { minRow, minCol, rows: maxRow - minRow + 1, cols: maxCol - minCol + 1 };
+}
+
+export function isBlankTile(tile: Pick<Tile, "letter">): boolean {
+  return tile.letter === BLANK_TILE;
+}
+
+// The letter a tile spells with: its own, or the one assigned to a blank (still BLANK_TILE until then).
+export function getTileFace(tile: Pick<Tile, "letter" | "assignedLetter">): string {
+  return isBlankTile(tile) ? tile.assignedLetter ?? BLANK_TILE : tile.letter;
+}
+
+// Every across and down run on the board, ordered by start cell then direction.
+export function extractBoardWords(state: Pick<GameState, "tiles">): WordRun[] {
+  const tilesByCell = new Map<string, Tile>();
+  for (const tile of state.tiles) {
+    if (isPlaced(tile)) {
+      tilesByCell.set(cellKey(tile.row as number, tile.col as number), tile);
+    }
+  }
+
+  const runs: WordRun[] = [];
+  const readRun = (row: number, col: number, direction: WordDirection): void => {
+    const rowStep = direction === "down" ? 1 : 0;
+    const colStep = direction === "across" ? 1 : 0;
+    if (tilesByCell.has(cellKey(row - rowStep, col - colStep))) {
+      return;
+    }
+
+    let word = "";
+    const tileIds: string[] = [];
+    let cursorRow = row;
+    let cursorCol = col;
+    let tile = tilesByCell.get(cellKey(cursorRow, cursorCol));
+    while (tile) {
+      word += getTileFace(tile);
+      tileIds.push(tile.id);
+      cursorRow += rowStep;
+      cursorCol += colStep;
+      tile = tilesByCell.get(cellKey(cursorRow, cursorCol));
+    }
+
+    if (tileIds.length >= 2) {
+      runs.push({ word, row, col, direction, tileIds });
+    }
+  };
+
+  for (const key of tilesByCell.keys()) {
+    const [row, col] = key.split(":").map(Number);
+    readRun(row, col, "across");
+    readRun(row, col, "down");
+  }
+
+  return runs.sort((a, b) => a.row - b.row || a.col - b.col || a.direction.localeCompare(b.direction));
+}
+
+// The longest run on the board; ties go to the first in reading order.
+export function findLongestBoardWord(state: Pick<GameState, "tiles">): string {
+  return extractBoardWords(state).reduce((longest, run) => (run.word.length > longest.length ? run.word : longest), "");
+}
+
+// Whether the bag covers another round for a table with `runningSeats` boards still playing, counting the
+// share burned for idle seats; once it can't, the next serve (or classic "bananas") ends the round.
+export function canServeRound(state: GameState, bag: TileBag, runningSeats = state.config.players): boolean {
+  const roundSize = runningSeats + countIdleSeats(state.config, runningSeats);
+  if (state.config.variant === "classic") {
+    return bag.letters.length >= roundSize;
   }
+  return bag.letters.length > roundSize;
+}
 
-  const next = performServeRound(baseState);
+export function validateBoardWords(state: GameState, dictionary: WordDictionary): BoardWordValidation {
+  const invalidWords = extractBoardWords(state).filter((run) => !dictionary.has(run.word));
   return {
-    ...next,
-    lastAction: "You got a bisquit and served some to your friends.",
+    valid: invalidWords.length === 0,
+    invalidWords,
   };
 }
 
-export function applyPressureTick(baseState: GameState): GameState {
-  if (baseState.status !== "running") {
-    return baseState;
+function validateBoard(state: GameState, seat: number): GameStateViolation[] {
+  const violations: GameStateViolation[] = [];
+  const report = (code: GameStateViolationCode, tileIds: string[], message: string) => {
+    violations.push({ code, seat, tileIds, message });
+  };
+
+  const seenIds = new Set<string>();
+  const tilesByCell = new Map<string, string[]>();
+  for (const tile of state.tiles) {
+    if (seenIds.has(tile.id)) {
+      report("duplicate_tile_id", [tile.id], `Tile id ${tile.id} appears more than once.`);
+    }
+    seenIds.add(tile.id);
+    if (tile.assignedLetter !== undefined && !isBlankTile(tile)) {
+      report("stray_assignment", [tile.id], `Tile ${tile.id} is not a blank but reads as ${tile.assignedLetter}.`);
+    }
+
+    const idNumber = /^t(\d+)$/.exec(tile.id);
+    if (idNumber && Number(idNumber[1]) >= state.nextTileId) {
+      report("stale_tile_counter", [tile.id], `Tile ${tile.id} is not below the next tile id ${state.nextTileId}.`);
+    }
+
+    if (tile.zone === "staging") {
+      if (tile.row !== null || tile.col !== null) {
+        report("stray_cell", [tile.id], `Shelf tile ${tile.id} still has a board cell.`);
+      }
+      continue;
+    }
+    if (tile.row === null || tile.col === null) {
+      report("missing_cell", [tile.id], `Board tile ${tile.id} has no cell.`);
+      continue;
+    }
+    if (!isCellOnBoard(state.config, tile.row, tile.col)) {
+      report("off_board", [tile.id], `Board tile ${tile.id} sits off the board at ${tile.row},${tile.col}.`);
+    }
+    const key = cellKey(tile.row, tile.col);
+    tilesByCell.set(key, [...(tilesByCell.get(key) ?? []), tile.id]);
   }
 
-  if (!canServeRound(baseState)) {
-    return {
-      ...baseState,
-      status: "lost",
-      lastAction: "Somebody ate all their bisquits before you could stuff 'em on your plate.",
-    };
+  for (const [key, tileIds] of tilesByCell) {
+    if (tileIds.length > 1) {
+      report("shared_cell", tileIds, `Tiles ${tileIds.join(", ")} share cell ${key.replace(":", ",")}.`);
+    }
+  }
+  return violations;
+}
+
+// Checks a table and its shared bag for states no engine call should produce. Burned shares and departed
+// seats take bisquits out of play, so letter totals may fall short of the language pack but never exceed it.
+export function validateGameState(states: GameState[], bag: TileBag): GameStateViolation[] {
+  const violations = states.flatMap((state, seat) => validateBoard(state, seat));
+
+  const countLetters = (letters: string[]) => {
+    const counts = new Map<string, number>();
+    for (const letter of letters) {
+      counts.set(letter, (counts.get(letter) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const available = countLetters([...getLanguagePack(states[0]?.config.language).distribution]);
+  if (states[0]?.config.blankTiles) {
+    available.set(BLANK_TILE, states[0].config.blankTiles);
+  }
+  const inPlay = countLetters([...bag.letters, ...states.flatMap((state) => state.tiles.map((tile) => tile.letter))]);
+  const tileIdsWithLetter = (letter: string) =>
+    states.flatMap((state) => state.tiles.filter((tile) => tile.letter === letter).map((tile) => tile.id));
+
+  for (const [letter, count] of inPlay) {
+    const limit = available.get(letter) ?? 0;
+    if (limit === 0) {
+      violations.push({
+        code: "unknown_letter",
+        seat: null,
+        tileIds: tileIdsWithLetter(letter),
+        message: `Letter ${letter} is not in the tile set.`,
+      });
+    } else if (count > limit) {
+      violations.push({
+        code: "letter_surplus",
+        seat: null,
+        tileIds: tileIdsWithLetter(letter),
+        message: `${count} ${letter} bisquits are in play but the tile set only has ${limit}.`,
+      });
+    }
+  }
+  return violations;
+}
+
+export function analyzeBoardConnectivity(state: Pick<GameState, "tiles">): BoardConnectivity {
+  const tileIdByCell = new Map<string, string>();
+  for (const tile of state.tiles) {
+    if (tile.zone === "board" && tile.row !== null && tile.col !== null) {
+      tileIdByCell.set(cellKey(tile.row, tile.col), tile.id);
+    }
+  }
+
+  const visited = new Set<string>();
+  const components: string[][] = [];
+  for (const startKey of tileIdByCell.keys()) {
+    if (visited.has(startKey)) {
+      continue;
+    }
+
+    const component: string[] = [];
+    const pending = [startKey];
+    visited.add(startKey);
+    while (pending.length > 0) {
+      const key = pending.pop() as string;
+      component.push(tileIdByCell.get(key) as string);
+      const [row, col] = key.split(":").map(Number);
+      for (const neighbor of [cellKey(row - 1, col), cellKey(row + 1, col), cellKey(row, col - 1), cellKey(row, col + 1)]) {
+        if (tileIdByCell.has(neighbor) && !visited.has(neighbor)) {
+          visited.add(neighbor);
+          pending.push(neighbor);
+        }
+      }
+    }
+    components.push(component);
   }
 
-  const next = performServeRound(baseState);
+  components.sort((a, b) => b.length - a.length);
   return {
-    ...next,
-    lastAction: "Pressure tick: the table advanced and a new bisquit arrived.",
+    connected: components.length === 1,
+    components,
+    orphanTileIds: components.slice(1).flat(),
   };
 }
 
-export function canTradeTile(state: GameState): boolean {
-  return state.drawPile.length > 3;
+// The default scoring rules with the letter values of a language pack.
+export function getScoringRules(language: LanguageCode): ScoringRules {
+  return { ...DEFAULT_SCORING_RULES, letterValues: getLanguagePack(language).letterValues };
+}
+
+export function scoreBoard(state: GameState, rules: ScoringRules = getScoringRules(state.config.language)): BoardScore {
+  const letterValue = (letter: string): number => rules.letterValues[letter] ?? 0;
+  // Score by tile rather than by character so a two-letter bisquit such as IJ counts once.
+  const letterById = new Map(state.tiles.map((tile) => [tile.id, tile.letter]));
+  const words = extractBoardWords(state).map((run) => ({
+    ...run,
+    points: run.tileIds.reduce((sum, tileId) => sum + letterValue(letterById.get(tileId) ?? ""), 0),
+  }));
+  const wordPoints = words.reduce((sum, word) => sum + word.points, 0);
+  const lengthBonus = words.reduce((sum, word) => {
+    const bonusLetters = word.tileIds.length - rules.lengthBonusFrom + 1;
+    return bonusLetters > 0 ? sum + bonusLetters * rules.lengthBonusPerLetter : sum;
+  }, 0);
+  const shelfPenalty = state.tiles
+    .filter((tile) => tile.zone === "staging")
+    .reduce((sum, tile) => sum + letterValue(tile.letter) * rules.shelfPenaltyMultiplier, 0);
+
+  return {
+    words,
+    wordPoints,
+    lengthBonus,
+    shelfPenalty,
+    total: wordPoints + lengthBonus - shelfPenalty,
+  };
 }
 
+export function serveTable(baseStates: GameState[], bag: TileBag): GameState[] {
+  if (!isTableRunning(baseStates)) {
+    return baseStates;
+  }
+
+  const classic = baseStates[0].config.variant === "classic";
+  if (!canServeRound(baseStates[0], bag, countRunningBoards(baseStates))) {
+    return baseStates.map((state) =>
+      state.status === "running"
+        ? {
+            ...state,
+            status: "won",
+            lastAction: classic
+              ? "Bananas! The bunch ran out and the round is over."
+              : "You served the final plate of bisquits and won.",
+          }
+        : state,
+    );
+  }
+
+  return performServeRound(baseStates, bag).map((state) =>
+    state.status === "running"
+      ? {
+          ...state,
+          lastAction: classic ? "Peel! Everyone took a new tile." : "You got a bisquit and served some to your friends.",
+        }
+      : state,
+  );
+}
+
+export function servePlate(baseState: GameState, bag: TileBag): GameState {
+  return serveTable([baseState], bag)[0];
+}
+
+// Classic tables have no pressure ticks and are returned unchanged.
+export function applyTablePressureTick(baseStates: GameState[], bag: TileBag): GameState[] {
+  if (!isTableRunning(baseStates) || baseStates[0].config.variant === "classic") {
+    return baseStates;
+  }
+
+  if (!canServeRound(baseStates[0], bag, countRunningBoards(baseStates))) {
+    return baseStates.map((state) =>
+      state.status === "running"
+        ? {
+            ...state,
+            status: "lost",
+            lastAction: "Somebody ate all their bisquits before you could stuff 'em on your plate.",
+          }
+        : state,
+    );
+  }
+
+  return performServeRound(baseStates, bag).map((state) =>
+    state.status === "running"
+      ? { ...state, lastAction: "Pressure tick: the table advanced and a new bisquit arrived." }
+      : state,
+  );
+}
+
+// Takes one seat away from the table. Like a rotten plate, its tiles are shuffled back into the shared
+// bag, so the table keeps every letter it was dealt.
+export function leaveTable(baseStates: GameState[], seat: number, bag: TileBag, rng: RandomSource = Math.random): GameState[] {
+  const leaving = baseStates[seat];
+  if (!leaving) {
+    return baseStates;
+  }
+
+  for (const tile of leaving.tiles) {
+    insertLetterIntoBag(bag, tile.letter, rng);
+  }
+  return baseStates.filter((_, index) => index !== seat);
+}
+
+// Knocks one seat out of the round after an invalid final plate: its tiles are shuffled back into the
+// shared bag and every other board keeps playing.
+export function rotBoard(baseStates: GameState[], seat: number, bag: TileBag, rng: RandomSource = Math.random): GameState[] {
+  const target = baseStates[seat];
+  if (!target || target.status !== "running") {
+    return baseStates;
+  }
+
+  const next = cloneState(target);
+  for (const tile of next.tiles) {
+    insertLetterIntoBag(bag, tile.letter, rng);
+  }
+  next.tiles = [];
+  next.history = { undo: [], redo: [] };
+  next.status = "rotten";
+  next.lastAction = "Your plate was rotten. Your bisquits went back into the bag.";
+  return baseStates.map((state, index) => (index === seat ? next : state));
+}
+
+export function applyPressureTick(baseState: GameState, bag: TileBag): GameState {
+  return applyTablePressureTick([baseState], bag)[0];
+}
+
+export function nextPressureDelayMs(config: GameConfig, rng: RandomSource): number {
+  const [first, second] = config.pressureRangeMs;
+  const min = Math.max(0, Math.min(first, second));
+  const max = Math.max(min, first, second);
+  return Math.round(min + rng() * (max - min));
+}
+
+export function canTradeTile(bag: TileBag, policy: TradePolicy = DEFAULT_TRADE_POLICY): boolean {
+  return bag.letters.length > policy.tilesPerTrade;
+}
+
+// Whether a board may trade at `now`, measured on the same clock as the `now` passed to `tradeTile`.
+export function checkTrade(state: GameState, bag: TileBag, now = 0): TradeCheck {
+  const policy = state.config.tradePolicy;
+  if (!canTradeTile(bag, policy)) {
+    return { valid: false, reason: "bag_low", availableAt: 0 };
+  }
+  if (policy.maxTradesPerRound > 0 && state.tradeCount >= policy.maxTradesPerRound) {
+    return { valid: false, reason: "limit", availableAt: 0 };
+  }
+  const availableAt = state.lastTradeAt === null ? 0 : state.lastTradeAt + policy.cooldownMs;
+  if (now < availableAt) {
+    return { valid: false, reason: "cooldown", availableAt };
+  }
+  return { valid: true, reason: "", availableAt: 0 };
+}
+
+const TRADE_BLOCKED_MESSAGES: Record<TradeCheck["reason"], string> = {
+  "": "",
+  bag_low: "Not enough bisquits remain to trade.",
+  cooldown: "Trades are cooling down.",
+  limit: "You have used every trade this round allows.",
+};
+
 export function tradeTile(
   baseState: GameState,
   tileId: string,
+  bag: TileBag,
   rng: RandomSource = Math.random,
+  now = 0,
 ): GameState {
   if (baseState.status !== "running") {
     return baseState;
   }
 
-  if (!canTradeTile(baseState)) {
+  const check = checkTrade(baseState, bag, now);
+  if (!check.valid) {
     return {
       ...baseState,
-      lastAction: "Not enough bisquits remain to trade.",
+      lastAction: TRADE_BLOCKED_MESSAGES[check.reason],
     };
   }
 
@@ -364,14 +996,18 @@ export function tradeTile(
   }
 
   const [discarded] = next.tiles.splice(index, 1);
-  insertLetterIntoBag(next.drawPile, discarded.letter, rng);
+  insertLetterIntoBag(bag, discarded.letter, rng);
 
-  for (let i = 0; i < 3; i += 1) {
-    addVisibleTile(next);
+  const { tilesPerTrade } = next.config.tradePolicy;
+  for (let i = 0; i < tilesPerTrade; i += 1) {
+    addVisibleTile(next, bag);
   }
 
   next.turn += 1;
-  next.lastAction = `Traded ${discarded.letter} for three new bisquits.`;
+  next.tradeCount += 1;
+  next.lastTradeAt = now;
+  const drawn = tilesPerTrade === 1 ? "a new bisquit" : `${tilesPerTrade} new bisquits`;
+  next.lastAction = `Traded ${discarded.letter} for ${drawn}.`;
   return next;
 }
 
@@ -386,8 +1022,7 @@ export function moveTile(baseState: GameState, tileId: string, targetRow: number
     return baseState;
   }
 
-  const row = Math.max(1, Math.min(next.config.rows, Math.round(targetRow)));
-  const col = Math.max(1, Math.min(next.config.cols, Math.round(targetCol)));
+  const { row, col } = clampBoardCell(next.config, targetRow, targetCol);
   const occupied = next.tiles.find(
     (item) => item.id !== tileId && item.zone === "board" && item.row === row && item.col === col,
   );
@@ -395,21 +1030,125 @@ export function moveTile(baseState: GameState, tileId: string, targetRow: number
   const movedFromBoard = tile.zone === "board";
   const originalRow = tile.row;
   const originalCol = tile.col;
+  const movedTiles = occupied ? [tile, occupied] : [tile];
+  const before = movedTiles.map(placementOf);
   moveTileToBoard(tile, row, col);
 
   if (occupied) {
     if (movedFromBoard && originalRow !== null && originalCol !== null) {
       moveTileToBoard(occupied, originalRow, originalCol);
-      next.lastAction = `Swapped ${tile.letter} with ${occupied.letter}.`;
+      next.lastAction = `Swapped ${getTileFace(tile)} with ${getTileFace(occupied)}.`;
     } else {
       moveTileToStaging(occupied);
-      next.lastAction = `Placed ${tile.letter} on ${row},${col}; ${occupied.letter} moved to shelf.`;
+      next.lastAction = `Placed ${getTileFace(tile)} on ${row},${col}; ${getTileFace(occupied)} moved to shelf.`;
     }
+    recordMove(next, movedTiles, before);
     return next;
   }
 
+  recordMove(next, movedTiles, before);
   next.lastAction = movedFromBoard
-    ? `Moved ${tile.letter} to ${row},${col}.`
-    : `Placed ${tile.letter} on ${row},${col}.`;
+    ? `Moved ${getTileFace(tile)} to ${row},${col}.`
+    : `Placed ${getTileFace(tile)} on ${row},${col}.`;
   return next;
 }
+
+export function checkTileTranslation(
+  state: GameState,
+  tileIds: string[],
+  rowOffset: number,
+  colOffset: number,
+): TileTranslationCheck {
+  const selected = new Set(tileIds);
+  const moving = state.tiles.filter((tile) => selected.has(tile.id));
+  if (selected.size === 0 || moving.length !== selected.size || moving.some((tile) => !isPlaced(tile))) {
+    return { valid: false, reason: "not_on_board" };
+  }
+
+  const targets = moving.map((tile) => ({ row: (tile.row as number) + rowOffset, col: (tile.col as number) + colOffset }));
+  if (targets.some(({ row, col }) => !isCellOnBoard(state.config, row, col))) {
+    return { valid: false, reason: "off_board" };
+  }
+
+  const blocked = new Set(
+    state.tiles
+      .filter((tile) => !selected.has(tile.id) && isPlaced(tile))
+      .map((tile) => cellKey(tile.row as number, tile.col as number)),
+  );
+  if (targets.some(({ row, col }) => blocked.has(cellKey(row, col)))) {
+    return { valid: false, reason: "collision" };
+  }
+
+  return { valid: true, reason: "" };
+}
+
+// Shifts every selected board tile by the same offset in one step, recorded as a single undoable move.
+export function moveTiles(baseState: GameState, tileIds: string[], rowOffset: number, colOffset: number): GameState {
+  if (baseState.status !== "running" || !checkTileTranslation(baseState, tileIds, rowOffset, colOffset).valid) {
+    return baseState;
+  }
+
+  const next = cloneState(baseState);
+  const selected = new Set(tileIds);
+  const moving = next.tiles.filter((tile) => selected.has(tile.id));
+  const before = moving.map(placementOf);
+  for (const tile of moving) {
+    moveTileToBoard(tile, (tile.row as number) + rowOffset, (tile.col as number) + colOffset);
+  }
+  recordMove(next, moving, before);
+  next.lastAction = `Moved ${moving.length} bisquits together.`;
+  return next;
+}
+
+export function returnTileToShelf(baseState: GameState, tileId: string): GameState {
+  if (baseState.status !== "running") {
+    return baseState;
+  }
+
+  const next = cloneState(baseState);
+  const tile = next.tiles.find((item) => item.id === tileId);
+  if (!tile || tile.zone !== "board") {
+    return baseState;
+  }
+
+  const before = [placementOf(tile)];
+  moveTileToStaging(tile);
+  recordMove(next, [tile], before);
+  next.lastAction = `Returned ${getTileFace(tile)} to the shelf.`;
+  return next;
+}
+
+// Folds a requested blank letter onto the language pack's tiles, or returns "" when the pack has no such tile.
+export function normalizeBlankLetter(language: LanguageCode, letter: string): string {
+  const pack = getLanguagePack(language);
+  const folded = foldWordForPack(letter, pack);
+  return Object.hasOwn(pack.letterValues, folded) ? folded : "";
+}
+
+// Blanks can be given a letter on the shelf or the board and reassigned at any time. Assignments are not
+// placements, so they stay out of the undo history.
+export function assignBlankLetter(baseState: GameState, tileId: string, letter: string): GameState {
+  if (baseState.status !== "running") {
+    return baseState;
+  }
+
+  const face = normalizeBlankLetter(baseState.config.language, letter);
+  const current = baseState.tiles.find((item) => item.id === tileId);
+  if (!face || !current || !isBlankTile(current) || current.assignedLetter === face) {
+    return baseState;
+  }
+
+  const next = cloneState(baseState);
+  const tile = next.tiles.find((item) => item.id === tileId) as Tile;
+  tile.assignedLetter = face;
+  next.lastAction = `Your blank now reads ${face}.`;
+  return next;
+}
+
+export function undoMove(baseState: GameState): GameState {
+  return stepMoveHistory(baseState, "undo");
+}
+
+export function redoMove(baseState: GameState): GameState {
+  return stepMoveHistory(baseState, "redo");
+}
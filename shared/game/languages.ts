@@ -0,0 +1,128 @@
+// Language packs: the bisquits in the bag, what each letter scores, and how dictionary words fold
+// onto the tile set. Letters are strings, not characters: Dutch plays IJ as a single bisquit.
+export type LanguageCode = "en" | "es" | "fr" | "de" | "nl";
+
+export interface LanguagePack {
+  code: LanguageCode;
+  name: string;
+  // Every bisquit in a fresh bag, in the order shuffling starts from.
+  distribution: readonly string[];
+  letterValues: Record<string, number>;
+  // Accented letters that are tiles of their own; every other accent is dropped when reading words.
+  keptMarks: readonly string[];
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+// Seeded rounds shuffle this exact order, so reordering it changes every English deal.
+const ENGLISH_DISTRIBUTION = [
+  "J", "K", "Q", "X", "Z", "J", "K", "Q", "X", "Z", "B", "C", "F", "H", "M", "P", "V", "W", "Y",
+  "B", "C", "F", "H", "M", "P", "V", "W", "Y", "B", "C", "F", "H", "M", "P", "V", "W", "Y", "G",
+  "G", "G", "G", "L", "L", "L", "L", "L", "D", "S", "U", "D", "S", "U", "D", "S", "U", "D", "S",
+  "U", "N", "N", "N", "N", "N", "N", "N", "N", "T", "R", "T", "R", "T", "R", "T", "R", "T", "R",
+  "T", "R", "T", "R", "T", "R", "T", "R", "O", "O", "O", "O", "O", "O", "O", "O", "O", "O", "O",
+  "I", "I", "I", "I", "I", "I", "I", "I", "I", "I", "I", "I", "A", "A", "A", "A", "A", "A", "A",
+  "A", "A", "A", "A", "A", "A", "E", "E", "E", "E", "E", "E", "E", "E", "E", "E", "E", "E", "E",
+  "E", "E", "E", "E", "E",
+];
+
+function expandCounts(counts: Record<string, number>): string[] {
+  return Object.entries(counts).flatMap(([letter, count]) => Array.from({ length: count }, () => letter));
+}
+
+export const LANGUAGE_PACKS: Record<LanguageCode, LanguagePack> = {
+  en: {
+    code: "en",
+    name: "English",
+    distribution: ENGLISH_DISTRIBUTION,
+    letterValues: {
+      A: 1, B: 3, C: 3, D: 2, E: 1, F: 4, G: 2, H: 4, I: 1, J: 8, K: 5, L: 1, M: 3,
+      N: 1, O: 1, P: 3, Q: 10, R: 1, S: 1, T: 1, U: 1, V: 4, W: 4, X: 8, Y: 4, Z: 10,
+    },
+    keptMarks: [],
+  },
+  es: {
+    code: "es",
+    name: "Español",
+    distribution: expandCounts({
+      A: 15, B: 3, C: 5, D: 6, E: 16, F: 2, G: 3, H: 3, I: 9, J: 2, K: 1, L: 7, M: 4, N: 8,
+      Ñ: 2, O: 13, P: 3, Q: 2, R: 10, S: 10, T: 6, U: 6, V: 2, W: 1, X: 1, Y: 2, Z: 2,
+    }),
+    letterValues: {
+      A: 1, B: 3, C: 3, D: 2, E: 1, F: 4, G: 2, H: 4, I: 1, J: 8, K: 8, L: 1, M: 3, N: 1,
+      Ñ: 8, O: 1, P: 3, Q: 5, R: 1, S: 1, T: 1, U: 1, V: 4, W: 8, X: 8, Y: 4, Z: 10,
+    },
+    keptMarks: ["Ñ"],
+  },
+  fr: {
+    code: "fr",
+    name: "Français",
+    distribution: expandCounts({
+      A: 13, B: 3, C: 4, D: 4, E: 21, F: 3, G: 3, H: 3, I: 11, J: 2, K: 1, L: 7, M: 4,
+      N: 9, O: 9, P: 3, Q: 2, R: 9, S: 9, T: 9, U: 8, V: 3, W: 1, X: 1, Y: 1, Z: 1,
+    }),
+    letterValues: {
+      A: 1, B: 3, C: 3, D: 2, E: 1, F: 4, G: 2, H: 4, I: 1, J: 8, K: 10, L: 1, M: 2,
+      N: 1, O: 1, P: 3, Q: 8, R: 1, S: 1, T: 1, U: 1, V: 4, W: 10, X: 10, Y: 10, Z: 10,
+    },
+    keptMarks: [],
+  },
+  de: {
+    code: "de",
+    name: "Deutsch",
+    distribution: expandCounts({
+      A: 9, B: 3, C: 4, D: 6, E: 20, F: 3, G: 5, H: 6, I: 10, J: 1, K: 2, L: 5, M: 5, N: 12, O: 4,
+      P: 2, Q: 1, R: 9, S: 9, T: 8, U: 6, V: 2, W: 2, X: 1, Y: 1, Z: 2, Ä: 2, Ö: 2, Ü: 2,
+    }),
+    letterValues: {
+      A: 1, B: 3, C: 4, D: 1, E: 1, F: 4, G: 2, H: 2, I: 1, J: 6, K: 4, L: 2, M: 3, N: 1, O: 2,
+      P: 4, Q: 10, R: 1, S: 1, T: 1, U: 1, V: 6, W: 3, X: 8, Y: 10, Z: 3, Ä: 6, Ö: 8, Ü: 6,
+    },
+    keptMarks: ["Ä", "Ö", "Ü"],
+  },
+  nl: {
+    code: "nl",
+    name: "Nederlands",
+    distribution: expandCounts({
+      A: 10, B: 3, C: 3, D: 7, E: 24, F: 2, G: 4, H: 3, I: 7, IJ: 2, J: 2, K: 4, L: 5, M: 4,
+      N: 14, O: 8, P: 3, Q: 1, R: 8, S: 7, T: 8, U: 4, V: 3, W: 3, X: 1, Y: 1, Z: 3,
+    }),
+    letterValues: {
+      A: 1, B: 3, C: 5, D: 2, E: 1, F: 4, G: 3, H: 4, I: 1, IJ: 4, J: 4, K: 3, L: 3, M: 3,
+      N: 1, O: 1, P: 3, Q: 10, R: 2, S: 2, T: 2, U: 4, V: 4, W: 5, X: 8, Y: 8, Z: 4,
+    },
+    keptMarks: [],
+  },
+};
+
+export function isLanguageCode(input: unknown): input is LanguageCode {
+  return typeof input === "string" && Object.hasOwn(LANGUAGE_PACKS, input);
+}
+
+export function getLanguagePack(code: LanguageCode = DEFAULT_LANGUAGE): LanguagePack {
+  return LANGUAGE_PACKS[code] ?? LANGUAGE_PACKS[DEFAULT_LANGUAGE];
+}
+
+// Upper-cases a word and strips accents the pack has no tiles for, so "été" reads as ETE in French
+// while "año" keeps its Ñ in Spanish.
+export function foldWordForPack(word: string, pack: LanguagePack): string {
+  return [...word.trim().toUpperCase()]
+    .map((letter) => (pack.keptMarks.includes(letter) ? letter : letter.normalize("NFD").replace(/\p{M}/gu, "")))
+    .join("");
+}
+
+// Splits a folded word into the tiles that spell it, preferring multi-letter tiles such as IJ.
+export function splitIntoTileLetters(word: string, pack: LanguagePack): string[] {
+  const multiLetterTiles = Object.keys(pack.letterValues)
+    .filter((letter) => letter.length > 1)
+    .sort((a, b) => b.length - a.length);
+  const letters: string[] = [];
+  let index = 0;
+  while (index < word.length) {
+    const tile = multiLetterTiles.find((candidate) => word.startsWith(candidate, index));
+    const letter = tile ?? String.fromCodePoint(word.codePointAt(index) ?? 0);
+    letters.push(letter);
+    index += letter.length;
+  }
+  return letters;
+}
@@ -0,0 +1,142 @@
+import { BLANK_TILE, DEFAULT_CONFIG, type BoardMode, type GameState, type GameStatus, type GameVariant, type Tile } from "./engine";
+import { DEFAULT_LANGUAGE, isLanguageCode } from "./languages";
+
+// A one-line text form of a board position, in the spirit of chess FEN:
+//
+//   <rows>x<cols> <boardMode> <variant>/<players>[/<language>] <tiles> <bagCount> <turn> <status> <nextTileId>
+//
+//   16x16 fixed bisquits/4 C@4:3,A@4:4,T@4:5,E,Q 120 5 running 6
+//
+// The language pack is written only when it isn't English. `<tiles>` lists every tile in state order,
+// comma separated, or `-` when there are none. Board tiles carry `@row:col`; shelf tiles are the bare
+// letter. A blank is `?`, followed by its assigned letter once it has one (`?S@4:6`). A tile's id is
+// written as `id=` in front of the letter only when it differs from `t<position>` (1-based), so freshly
+// dealt boards read as plain letters. Formatting a parsed position reproduces the text, and parsing a
+// formatted state reproduces its config dimensions, language, status, turn, tile ids, letters, blank
+// assignments, zones, cells and order.
+export type NotationConfig = Pick<GameState["config"], "rows" | "cols" | "boardMode" | "variant" | "language" | "players">;
+
+export interface NotatedPosition {
+  config: NotationConfig;
+  status: GameStatus;
+  turn: number;
+  nextTileId: number;
+  tiles: Tile[];
+}
+
+export interface ParsedPosition {
+  state: GameState;
+  bagCount: number;
+}
+
+const BOARD_MODES: readonly BoardMode[] = ["fixed", "expanding"];
+const VARIANTS: readonly GameVariant[] = ["bisquits", "classic"];
+const STATUSES: readonly GameStatus[] = ["running", "won", "lost", "rotten"];
+const TILE_PATTERN = /^(?:([^\s=@,]+)=)?([^\s=@,:]+)(?:@(-?\d+):(-?\d+))?$/;
+
+function defaultTileId(index: number): string {
+  return `t${index + 1}`;
+}
+
+function formatTile(tile: Tile, index: number): string {
+  const id = tile.id === defaultTileId(index) ? "" : `${tile.id}=`;
+  const cell = tile.zone === "board" && tile.row !== null && tile.col !== null ? `@${tile.row}:${tile.col}` : "";
+  return `${id}${tile.letter}${tile.assignedLetter ?? ""}${cell}`;
+}
+
+export function formatBoardNotation(state: NotatedPosition, bagCount: number): string {
+  const { rows, cols, boardMode, variant, language, players } = state.config;
+  const seating = language === DEFAULT_LANGUAGE ? `${variant}/${players}` : `${variant}/${players}/${language}`;
+  const tiles = state.tiles.length > 0 ? state.tiles.map(formatTile).join(",") : "-";
+  return [
+    `${rows}x${cols}`,
+    boardMode,
+    seating,
+    tiles,
+    bagCount,
+    state.turn,
+    state.status,
+    state.nextTileId,
+  ].join(" ");
+}
+
+function parseCount(field: string, name: string, min = 0): number {
+  if (!/^\d+$/.test(field) || Number(field) < min) {
+    throw new Error(`Board notation ${name} must be a whole number of at least ${min}, got "${field}".`);
+  }
+  return Number(field);
+}
+
+function parseChoice<T extends string>(field: string, name: string, choices: readonly T[]): T {
+  if (!(choices as readonly string[]).includes(field)) {
+    throw new Error(`Board notation ${name} must be one of ${choices.join(", ")}, got "${field}".`);
+  }
+  return field as T;
+}
+
+function parseTiles(field: string): Tile[] {
+  if (field === "-") {
+    return [];
+  }
+
+  const seenIds = new Set<string>();
+  return field.split(",").map((token, index) => {
+    const match = TILE_PATTERN.exec(token);
+    if (!match) {
+      throw new Error(`Board notation tile ${index + 1} is malformed: "${token}".`);
+    }
+    const [, explicitId, face, row, col] = match;
+    const id = explicitId ?? defaultTileId(index);
+    if (seenIds.has(id)) {
+      throw new Error(`Board notation repeats tile id "${id}".`);
+    }
+    seenIds.add(id);
+    const letter = face.length > 1 && face.startsWith(BLANK_TILE) ? BLANK_TILE : face;
+    const assignment = letter === face ? {} : { assignedLetter: face.slice(1) };
+    return row === undefined
+      ? { id, letter, ...assignment, zone: "staging", row: null, col: null }
+      : { id, letter, ...assignment, zone: "board", row: Number(row), col: Number(col) };
+  });
+}
+
+export function parseBoardNotation(text: string): ParsedPosition {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length !== 8) {
+    throw new Error(`Board notation needs 8 space-separated fields, got ${fields.length}.`);
+  }
+
+  const [size, mode, seating, tiles, bag, turn, status, nextTileId] = fields;
+  const dimensions = /^(\d+)x(\d+)$/.exec(size);
+  if (!dimensions) {
+    throw new Error(`Board notation size must look like 16x16, got "${size}".`);
+  }
+  const [variant, players = "", language = DEFAULT_LANGUAGE, ...extra] = seating.split("/");
+  if (!isLanguageCode(language) || extra.length > 0) {
+    throw new Error(`Board notation seating must look like bisquits/4 or bisquits/4/nl, got "${seating}".`);
+  }
+
+  return {
+    state: {
+      config: {
+        ...DEFAULT_CONFIG,
+        pressureRangeMs: [DEFAULT_CONFIG.pressureRangeMs[0], DEFAULT_CONFIG.pressureRangeMs[1]],
+        tradePolicy: { ...DEFAULT_CONFIG.tradePolicy },
+        rows: parseCount(dimensions[1], "rows", 1),
+        cols: parseCount(dimensions[2], "cols", 1),
+        boardMode: parseChoice(mode, "board mode", BOARD_MODES),
+        variant: parseChoice(variant, "variant", VARIANTS),
+        players: parseCount(players, "player count", 1),
+        language,
+      },
+      status: parseChoice(status, "status", STATUSES),
+      turn: parseCount(turn, "turn"),
+      nextTileId: parseCount(nextTileId, "next tile id", 1),
+      tiles: parseTiles(tiles),
+      lastAction: "Position loaded from notation.",
+      history: { undo: [], redo: [] },
+      tradeCount: 0,
+      lastTradeAt: null,
+    },
+    bagCount: parseCount(bag, "bag count"),
+  };
+}
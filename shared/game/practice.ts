@@ -0,0 +1,64 @@
+import { applyAction, type ActionResult, type GameAction, type GameEvent } from "./actions";
+import {
+  createGame,
+  createPressureRandom,
+  createSeededRandom,
+  createTileBag,
+  type GameConfig,
+  type GameState,
+  type RandomSource,
+  type TileBag,
+} from "./engine";
+import { DEFAULT_LANGUAGE } from "./languages";
+
+// Solo practice runs the shared engine with no server. The board is dealt for a table of two, so the
+// empty seat's bisquits are burned on every serve and the bag drains as it would against one opponent.
+// There is no word list in the browser, so a final plate only has to be connected.
+export const PRACTICE_TABLE_SIZE = 2;
+
+export type PracticeConfig = Partial<Omit<GameConfig, "players" | "seed">>;
+
+export interface PracticeRound {
+  seed: number;
+  // The practice board, alone at seat 0.
+  boards: GameState[];
+  bag: TileBag;
+  rng: RandomSource;
+  pressureRandom: RandomSource;
+}
+
+// How a practice round ended: a served final plate, a rotten final plate, or a bag that ran dry.
+export type PracticeResult = "won" | "rotten" | "lost";
+
+export interface PracticeStep extends ActionResult {
+  result: PracticeResult | null;
+}
+
+export function createPracticeRound(seed: number, config: PracticeConfig = {}): PracticeRound {
+  const rng = createSeededRandom(seed);
+  const bag = createTileBag(rng, config.language ?? DEFAULT_LANGUAGE, config.blankTiles);
+  return {
+    seed,
+    boards: [createGame({ ...config, players: PRACTICE_TABLE_SIZE, seed }, bag)],
+    bag,
+    rng,
+    pressureRandom: createPressureRandom(seed),
+  };
+}
+
+export function getPracticeResult(events: GameEvent[]): PracticeResult | null {
+  if (events.some((event) => event.type === "round_won")) {
+    return "won";
+  }
+  if (!events.some((event) => event.type === "round_lost")) {
+    return null;
+  }
+  return events.some((event) => event.type === "board_rotten") ? "rotten" : "lost";
+}
+
+// Applies an action to the round's board. The bag and random streams advance in place; the caller keeps
+// the returned boards unless the action was rejected.
+export function playPracticeAction(round: PracticeRound, action: GameAction): PracticeStep {
+  const { state, events } = applyAction(round.boards, action, { bag: round.bag, rng: round.rng });
+  return { state, events, result: getPracticeResult(events) };
+}
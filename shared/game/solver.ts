@@ -0,0 +1,366 @@
+import type { WordDictionary } from "./dictionary";
+import {
+  analyzeBoardConnectivity,
+  getBoardBounds,
+  getScoringRules,
+  getTileFace,
+  isBlankTile,
+  validateBoardWords,
+  type GameState,
+  type Tile,
+  type WordDirection,
+} from "./engine";
+import { getLanguagePack, splitIntoTileLetters, type LanguageCode } from "./languages";
+
+export interface SolverOptions {
+  // Longest word the solver will lay down, anchor letter included; lower limits make weaker players.
+  maxWordLength?: number;
+  // Placements tried before giving up; each one re-reads every word on the board.
+  searchBudget?: number;
+}
+
+// Bot turns run on the room's thread, so a crowded board where nothing fits gives up instead of trying
+// every crossing in the word list.
+const DEFAULT_SEARCH_BUDGET = 400;
+
+export interface TileMove {
+  tileId: string;
+  row: number;
+  col: number;
+  // The letter a blank should read as once it lands; unset for lettered tiles.
+  letter?: string;
+}
+
+// A word laid from shelf tiles, either on an empty board or crossing one tile already placed. Blanks on the
+// shelf stand in for any letter the other tiles can't cover.
+export interface WordPlacement {
+  word: string;
+  row: number;
+  col: number;
+  direction: WordDirection;
+  moves: TileMove[];
+}
+
+export interface PlacementHint {
+  placement: WordPlacement | null;
+  // Shelf tiles whose letters fit no word the shelf can spell, even through one letter already on the board.
+  tradeTileIds: string[];
+}
+
+export type BotStep =
+  | { type: "place"; placement: WordPlacement }
+  | { type: "trade"; tileId: string }
+  | { type: "serve" }
+  | { type: "wait" };
+
+type PlacedTile = Tile & { zone: "board"; row: number; col: number };
+
+// A dictionary word with the tile letters that spell it; IJ is one tile in Dutch, so the two can differ in length.
+// `mask` has a bit for each distinct letter, so most words can be ruled out without counting letters.
+interface SpelledWord {
+  word: string;
+  letters: string[];
+  mask: number;
+}
+
+// Longest words first, so the first placement found is also the most ambitious one.
+const wordsByLengthCache = new WeakMap<WordDictionary, Map<LanguageCode, SpelledWord[]>>();
+
+function wordsByLength(dictionary: WordDictionary, language: LanguageCode): SpelledWord[] {
+  const byLanguage = wordsByLengthCache.get(dictionary) ?? new Map<LanguageCode, SpelledWord[]>();
+  wordsByLengthCache.set(dictionary, byLanguage);
+  let words = byLanguage.get(language);
+  if (!words) {
+    const pack = getLanguagePack(language);
+    words = [...dictionary.words()]
+      .map((word) => {
+        const letters = splitIntoTileLetters(word, pack);
+        return { word, letters, mask: letterMask(letters, language) };
+      })
+      .sort((a, b) => b.letters.length - a.letters.length || a.word.localeCompare(b.word));
+    byLanguage.set(language, words);
+  }
+  return words;
+}
+
+// Letters share a bit once a pack has more than 31 of them, which only lets a few more words through to
+// the full count; letters outside the pack take the last bit, which no shelf sets.
+const letterBitsCache = new Map<LanguageCode, Map<string, number>>();
+
+function letterMask(letters: string[], language: LanguageCode): number {
+  let bits = letterBitsCache.get(language);
+  if (!bits) {
+    bits = new Map(Object.keys(getLanguagePack(language).letterValues).map((letter, index) => [letter, 1 << index % 31]));
+    letterBitsCache.set(language, bits);
+  }
+  let mask = 0;
+  for (const letter of letters) {
+    mask |= bits.get(letter) ?? 1 << 31;
+  }
+  return mask;
+}
+
+function countBits(mask: number): number {
+  let count = 0;
+  for (let rest = mask; rest !== 0; rest &= rest - 1) {
+    count += 1;
+  }
+  return count;
+}
+
+function isPlacedTile(tile: Tile): tile is PlacedTile {
+  return tile.zone === "board" && tile.row !== null && tile.col !== null;
+}
+
+function cellKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+function countLetters(letters: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const letter of letters) {
+    counts.set(letter, (counts.get(letter) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Letters of a word the shelf can't cover, or null once more than `allowance` are missing.
+function missingLetters(word: string[], shelfCounts: Map<string, number>, allowance: number): string[] | null {
+  const remaining = new Map(shelfCounts);
+  const missing: string[] = [];
+  for (const letter of word) {
+    const available = remaining.get(letter) ?? 0;
+    if (available > 0) {
+      remaining.set(letter, available - 1);
+      continue;
+    }
+    missing.push(letter);
+    if (missing.length > allowance) {
+      return null;
+    }
+  }
+  return missing;
+}
+
+function isOnBoard(state: GameState, row: number, col: number): boolean {
+  if (state.config.boardMode === "expanding") {
+    return true;
+  }
+  const bounds = getBoardBounds(state);
+  return (
+    row >= bounds.minRow && row < bounds.minRow + bounds.rows && col >= bounds.minCol && col < bounds.minCol + bounds.cols
+  );
+}
+
+// Assigns shelf tiles to every cell of the word except the anchor's, then checks the whole board still reads.
+function tryPlacement(
+  state: GameState,
+  dictionary: WordDictionary,
+  spelled: SpelledWord,
+  start: { row: number; col: number },
+  direction: WordDirection,
+  anchorIndex: number,
+  occupied: Map<string, PlacedTile>,
+): WordPlacement | null {
+  const { word, letters } = spelled;
+  const rowStep = direction === "down" ? 1 : 0;
+  const colStep = direction === "across" ? 1 : 0;
+  const before = cellKey(start.row - rowStep, start.col - colStep);
+  const after = cellKey(start.row + rowStep * letters.length, start.col + colStep * letters.length);
+  if (occupied.has(before) || occupied.has(after)) {
+    return null;
+  }
+
+  const shelf = state.tiles.filter((tile) => tile.zone === "staging");
+  const blanks = shelf.filter(isBlankTile);
+  const used = new Set<string>();
+  const moves: TileMove[] = [];
+  for (let index = 0; index < letters.length; index += 1) {
+    const row = start.row + rowStep * index;
+    const col = start.col + colStep * index;
+    if (index === anchorIndex) {
+      continue;
+    }
+    if (occupied.has(cellKey(row, col)) || !isOnBoard(state, row, col)) {
+      return null;
+    }
+    const tile = shelf.find((candidate) => candidate.letter === letters[index] && !used.has(candidate.id));
+    if (tile) {
+      used.add(tile.id);
+      moves.push({ tileId: tile.id, row, col });
+      continue;
+    }
+    const blank = blanks.find((candidate) => !used.has(candidate.id));
+    if (!blank) {
+      return null;
+    }
+    used.add(blank.id);
+    moves.push({ tileId: blank.id, row, col, letter: letters[index] });
+  }
+
+  const movesById = new Map(moves.map((move) => [move.tileId, move]));
+  const trial: GameState = {
+    ...state,
+    tiles: state.tiles.map((tile) => {
+      const move = movesById.get(tile.id);
+      if (!move) {
+        return tile;
+      }
+      const placed: Tile = { ...tile, zone: "board", row: move.row, col: move.col };
+      return move.letter === undefined ? placed : { ...placed, assignedLetter: move.letter };
+    }),
+  };
+  if (!validateBoardWords(trial, dictionary).valid) {
+    return null;
+  }
+  return { word, row: start.row, col: start.col, direction, moves };
+}
+
+export function findWordPlacement(
+  state: GameState,
+  dictionary: WordDictionary,
+  options: SolverOptions = {},
+): WordPlacement | null {
+  const shelf = state.tiles.filter((tile) => tile.zone === "staging");
+  if (shelf.length === 0) {
+    return null;
+  }
+
+  const placed = state.tiles.filter(isPlacedTile);
+  const blankCount = shelf.filter(isBlankTile).length;
+  const shelfLetters = shelf.filter((tile) => !isBlankTile(tile)).map((tile) => tile.letter);
+  const shelfCounts = countLetters(shelfLetters);
+  const shelfMask = letterMask(shelfLetters, state.config.language);
+  const maxLength = options.maxWordLength ?? Number.POSITIVE_INFINITY;
+  const words = wordsByLength(dictionary, state.config.language);
+  let budget = options.searchBudget ?? DEFAULT_SEARCH_BUDGET;
+
+  if (placed.length === 0) {
+    const bounds = getBoardBounds(state);
+    const row = bounds.minRow + Math.floor((bounds.rows - 1) / 2);
+    for (const spelled of words) {
+      const length = spelled.letters.length;
+      if (
+        length > Math.min(maxLength, shelf.length) ||
+        countBits(spelled.mask & ~shelfMask) > blankCount ||
+        missingLetters(spelled.letters, shelfCounts, blankCount) === null
+      ) {
+        continue;
+      }
+      if (budget <= 0) {
+        return null;
+      }
+      budget -= 1;
+      const col = bounds.minCol + Math.max(0, Math.floor((bounds.cols - length) / 2));
+      const placement = tryPlacement(state, dictionary, spelled, { row, col }, "across", -1, new Map());
+      if (placement) {
+        return placement;
+      }
+    }
+    return null;
+  }
+
+  const occupied = new Map(placed.map((tile) => [cellKey(tile.row, tile.col), tile]));
+  const boardLetters = new Set(placed.map(getTileFace));
+  for (const spelled of words) {
+    const { letters } = spelled;
+    if (letters.length > Math.min(maxLength, shelf.length + 1) || countBits(spelled.mask & ~shelfMask) > blankCount + 1) {
+      continue;
+    }
+    // Once the blanks are spent, the anchor has to supply one of the missing letters.
+    const missing = missingLetters(letters, shelfCounts, blankCount + 1);
+    const needsAnchor = missing !== null && missing.length > blankCount;
+    if (missing === null || (needsAnchor && !missing.some((letter) => boardLetters.has(letter)))) {
+      continue;
+    }
+
+    for (const anchor of placed) {
+      const anchorLetter = getTileFace(anchor);
+      if (needsAnchor && !missing.includes(anchorLetter)) {
+        continue;
+      }
+      for (let index = 0; index < letters.length; index += 1) {
+        if (letters[index] !== anchorLetter) {
+          continue;
+        }
+        for (const direction of ["across", "down"] as const) {
+          if (budget <= 0) {
+            return null;
+          }
+          budget -= 1;
+          const start =
+            direction === "across" ? { row: anchor.row, col: anchor.col - index } : { row: anchor.row - index, col: anchor.col };
+          const placement = tryPlacement(state, dictionary, spelled, start, direction, index, occupied);
+          if (placement) {
+            return placement;
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function suggestHint(state: GameState, dictionary: WordDictionary, options: SolverOptions = {}): PlacementHint {
+  const shelf = state.tiles.filter((tile) => tile.zone === "staging");
+  const blankCount = shelf.filter(isBlankTile).length;
+  const shelfLetters = shelf.filter((tile) => !isBlankTile(tile)).map((tile) => tile.letter);
+  const shelfCounts = countLetters(shelfLetters);
+  const shelfMask = letterMask(shelfLetters, state.config.language);
+  const boardLetters = new Set(state.tiles.filter(isPlacedTile).map(getTileFace));
+  const maxLength = options.maxWordLength ?? Number.POSITIVE_INFINITY;
+  const allowance = blankCount + (boardLetters.size > 0 ? 1 : 0);
+
+  const usable = new Set<string>();
+  for (const { letters, mask } of wordsByLength(dictionary, state.config.language)) {
+    if (letters.length > Math.min(maxLength, shelf.length + 1) || countBits(mask & ~shelfMask) > allowance) {
+      continue;
+    }
+    const missing = missingLetters(letters, shelfCounts, allowance);
+    if (missing === null || (missing.length > blankCount && !missing.some((letter) => boardLetters.has(letter)))) {
+      continue;
+    }
+    for (const letter of letters) {
+      usable.add(letter);
+    }
+  }
+
+  return {
+    placement: findWordPlacement(state, dictionary, options),
+    // A blank fits any word, so it is never worth trading away.
+    tradeTileIds: shelf.filter((tile) => !isBlankTile(tile) && !usable.has(tile.letter)).map((tile) => tile.id),
+  };
+}
+
+// The shelf tile worth least to keep: the highest-scoring letter is usually the hardest to place.
+export function pickAwkwardTile(state: GameState): Tile | null {
+  const shelf = state.tiles.filter((tile) => tile.zone === "staging");
+  const { letterValues } = getScoringRules(state.config.language);
+  const value = (tile: Tile) => letterValues[tile.letter] ?? 0;
+  return shelf.reduce<Tile | null>((worst, tile) => (!worst || value(tile) > value(worst) ? tile : worst), null);
+}
+
+// One decision for an automated player: serve a finished grid, extend it, trade away a stuck letter, or wait.
+export function planBotStep(
+  state: GameState,
+  dictionary: WordDictionary,
+  options: SolverOptions & { canTrade: boolean },
+): BotStep {
+  if (state.status !== "running") {
+    return { type: "wait" };
+  }
+
+  if (!state.tiles.some((tile) => tile.zone === "staging")) {
+    return analyzeBoardConnectivity(state).connected && validateBoardWords(state, dictionary).valid
+      ? { type: "serve" }
+      : { type: "wait" };
+  }
+
+  const placement = findWordPlacement(state, dictionary, options);
+  if (placement) {
+    return { type: "place", placement };
+  }
+
+  const awkward = options.canTrade ? pickAwkwardTile(state) : null;
+  return awkward ? { type: "trade", tileId: awkward.id } : { type: "wait" };
+}
@@ -0,0 +1,290 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  applyAction,
+  findRejection,
+  replayActions,
+  replayRound,
+  type ActionContext,
+  type GameAction,
+} from "../shared/game/actions";
+import { createWordDictionary } from "../shared/game/dictionary";
+import {
+  BLANK_TILE,
+  createSeededRandom,
+  createTable,
+  createTileBag,
+  DEFAULT_TRADE_POLICY,
+  type GameState,
+  type Tile,
+} from "../shared/game/engine";
+
+function dealTable(seed: number, boardCount = 2): { boards: GameState[]; ctx: ActionContext } {
+  const rng = createSeededRandom(seed);
+  const bag = createTileBag(rng);
+  const boards = createTable({ players: boardCount, initialVisibleTiles: 3, seed }, boardCount, bag);
+  return { boards, ctx: { bag, rng } };
+}
+
+function placedBoard(board: GameState, tiles: Tile[]): GameState {
+  return { ...board, tiles };
+}
+
+test("applyAction moves a tile on one seat and reports where it landed", () => {
+  const { boards, ctx } = dealTable(11);
+  const tileId = boards[1].tiles[0].id;
+
+  const result = applyAction(boards, { type: "move_tile", seat: 1, tileId, row: 99, col: 2 }, ctx);
+
+  assert.equal(result.state[0], boards[0]);
+  assert.deepEqual(result.events, [{ type: "tile_moved", seat: 1, tileId, row: boards[1].config.rows, col: 2 }]);
+});
+
+test("applyAction rejects unknown seats and tiles without touching the table", () => {
+  const { boards, ctx } = dealTable(12);
+  const bagSize = ctx.bag.letters.length;
+
+  const unknownSeat = applyAction(boards, { type: "trade_tile", seat: 5, tileId: "t1", now: 0 }, ctx);
+  const unknownTile = applyAction(boards, { type: "trade_tile", seat: 0, tileId: "nope", now: 0 }, ctx);
+
+  assert.equal(findRejection(unknownSeat.events)?.message, "Unknown player seat.");
+  assert.equal(findRejection(unknownTile.events)?.message, "Unknown tile.");
+  assert.equal(unknownTile.state, boards);
+  assert.equal(ctx.bag.letters.length, bagSize);
+});
+
+test("serve_plate enforces shelf and connectivity rules and crowns a valid final plate", () => {
+  const { boards, ctx } = dealTable(13);
+  const shelfResult = applyAction(boards, { type: "serve_plate", seat: 0 }, ctx);
+  assert.match(findRejection(shelfResult.events)?.message ?? "", /tray tiles/);
+
+  const islands = placedBoard(boards[0], [
+    { id: "a", letter: "Q", zone: "board", row: 1, col: 1 },
+    { id: "b", letter: "Z", zone: "board", row: 4, col: 4 },
+  ]);
+  const islandResult = applyAction([islands, boards[1]], { type: "serve_plate", seat: 0 }, ctx);
+  assert.deepEqual(findRejection(islandResult.events)?.orphanTileIds, ["b"]);
+
+  const finalPlate = placedBoard(boards[0], [
+    { id: "a", letter: "Q", zone: "board", row: 1, col: 1 },
+    { id: "b", letter: "Z", zone: "board", row: 1, col: 2 },
+  ]);
+  const finalCtx = { ...ctx, bag: { letters: ["A"] }, dictionary: null };
+  const winResult = applyAction([finalPlate, boards[1]], { type: "serve_plate", seat: 0 }, finalCtx);
+  assert.deepEqual(winResult.events, [
+    { type: "table_served", seat: 0 },
+    { type: "round_won", seat: 0 },
+  ]);
+  assert.equal(winResult.state.every((board) => board.status === "won"), true);
+});
+
+test("join_table and leave_table keep seats addressable by index", () => {
+  const { boards, ctx } = dealTable(14);
+
+  const joined = applyAction(boards, { type: "join_table" }, ctx);
+  assert.equal(joined.state.length, 3);
+  assert.deepEqual(joined.events, [{ type: "seat_joined", seat: 2 }]);
+
+  const left = applyAction(joined.state, { type: "leave_table", seat: 0 }, ctx);
+  assert.deepEqual(left.state, joined.state.slice(1));
+});
+
+test("leave_table shuffles the leaving seat's tiles back into the bag", () => {
+  const { boards, ctx } = dealTable(22, 3);
+  const countTiles = (table: GameState[]) =>
+    table.reduce((total, board) => total + board.tiles.length, ctx.bag.letters.length);
+  const total = countTiles(boards);
+  const leavingLetters = boards[1].tiles.map((tile) => tile.letter);
+
+  const left = applyAction(boards, { type: "leave_table", seat: 1 }, ctx);
+  assert.equal(left.state.length, 2);
+  assert.equal(countTiles(left.state), total);
+  for (const letter of leavingLetters) {
+    assert.ok(ctx.bag.letters.includes(letter));
+  }
+});
+
+test("replaying a seed and its action list reproduces the round", () => {
+  const play = () => {
+    const { boards, ctx } = dealTable(15);
+    const actions: GameAction[] = [
+      { type: "move_tile", seat: 0, tileId: boards[0].tiles[0].id, row: 2, col: 2 },
+      { type: "trade_tile", seat: 1, tileId: boards[1].tiles[1].id, now: 0 },
+      { type: "pressure_tick" },
+      { type: "join_table" },
+    ];
+    return { ...replayActions(boards, actions, ctx), bag: ctx.bag.letters };
+  };
+
+  const first = play();
+  assert.deepEqual(play(), first);
+  assert.deepEqual(
+    first.log.map((entry) => entry.events[0]?.type),
+    ["tile_moved", "tile_traded", "table_served", "seat_joined"],
+  );
+});
+
+test("a round replay deals from its config and reaches the same table and bag", () => {
+  const config = { players: 2, initialVisibleTiles: 3, seed: 17, blankTiles: 2 };
+  const { boards, ctx } = (() => {
+    const rng = createSeededRandom(config.seed);
+    const bag = createTileBag(rng, "en", config.blankTiles);
+    return { boards: createTable(config, 2, bag), ctx: { bag, rng } };
+  })();
+  const actions: GameAction[] = [
+    { type: "move_tile", seat: 0, tileId: boards[0].tiles[0].id, row: 2, col: 2 },
+    { type: "pressure_tick" },
+    { type: "trade_tile", seat: 1, tileId: boards[1].tiles[0].id, now: 0 },
+    { type: "leave_table", seat: 1 },
+    { type: "pressure_tick" },
+  ];
+  let live = boards;
+  for (const action of actions) {
+    live = applyAction(live, action, ctx).state;
+  }
+
+  const replayed = replayRound({ config: boards[0].config, boardCount: 2, actions });
+  assert.deepEqual(replayed.state, live);
+  assert.deepEqual(replayed.bag, ctx.bag);
+});
+
+test("undo_move and redo_move reject when there is nothing to step through", () => {
+  const { boards, ctx } = dealTable(16);
+  const tileId = boards[0].tiles[0].id;
+
+  assert.equal(findRejection(applyAction(boards, { type: "undo_move", seat: 0 }, ctx).events)?.message, "Nothing to undo.");
+
+  const moved = applyAction(boards, { type: "move_tile", seat: 0, tileId, row: 3, col: 3 }, ctx).state;
+  const undone = applyAction(moved, { type: "undo_move", seat: 0 }, ctx);
+  assert.deepEqual(undone.events, [{ type: "move_undone", seat: 0 }]);
+  assert.deepEqual(undone.state[0].tiles, boards[0].tiles);
+  assert.equal(findRejection(applyAction(undone.state, { type: "undo_move", seat: 0 }, ctx).events)?.message, "Nothing to undo.");
+  assert.deepEqual(applyAction(undone.state, { type: "redo_move", seat: 0 }, ctx).state[0].tiles, moved[0].tiles);
+});
+
+test("move_tiles explains why a selection can't move", () => {
+  const { boards, ctx } = dealTable(17);
+  const [first, second] = boards[0].tiles.map((tile) => tile.id);
+  let table = applyAction(boards, { type: "move_tile", seat: 0, tileId: first, row: 1, col: 1 }, ctx).state;
+  table = applyAction(table, { type: "move_tile", seat: 0, tileId: second, row: 1, col: 3 }, ctx).state;
+
+  const offBoard = applyAction(table, { type: "move_tiles", seat: 0, tileIds: [first], rowOffset: -1, colOffset: 0 }, ctx);
+  const collision = applyAction(table, { type: "move_tiles", seat: 0, tileIds: [first], rowOffset: 0, colOffset: 2 }, ctx);
+  const moved = applyAction(table, { type: "move_tiles", seat: 0, tileIds: [first, second], rowOffset: 1, colOffset: 0 }, ctx);
+
+  assert.match(findRejection(offBoard.events)?.message ?? "", /off the board/);
+  assert.match(findRejection(collision.events)?.message ?? "", /outside the selection/);
+  assert.deepEqual(moved.events, [{ type: "tiles_moved", seat: 0, tileIds: [first, second], rowOffset: 1, colOffset: 0 }]);
+});
+
+test("classic tables reject pressure ticks and deal a split to late joiners", () => {
+  const rng = createSeededRandom(18);
+  const bag = createTileBag(rng);
+  const boards = createTable({ players: 2, variant: "classic", seed: 18 }, 2, bag);
+  const ctx = { bag, rng };
+
+  assert.match(findRejection(applyAction(boards, { type: "pressure_tick" }, ctx).events)?.message ?? "", /no pressure ticks/);
+  assert.equal(applyAction(boards, { type: "join_table" }, ctx).state[2].tiles.length, 21);
+});
+
+test("an invalid final plate rots the board and returns its tiles while the table plays on", () => {
+  const { boards, ctx } = dealTable(19);
+  const misspelled = placedBoard(boards[0], [
+    { id: "a", letter: "Q", zone: "board", row: 1, col: 1 },
+    { id: "b", letter: "Z", zone: "board", row: 1, col: 2 },
+  ]);
+  const finalCtx = { ...ctx, bag: { letters: ["A"] }, dictionary: createWordDictionary(["AT"]) };
+
+  const rotten = applyAction([misspelled, boards[1]], { type: "serve_plate", seat: 0 }, finalCtx);
+  assert.equal(rotten.events.length, 1);
+  assert.equal(rotten.events[0].type, "board_rotten");
+  assert.deepEqual(
+    rotten.events[0].type === "board_rotten" ? rotten.events[0].invalidWords.map((run) => run.word) : [],
+    ["QZ"],
+  );
+  assert.equal(rotten.state[0].status, "rotten");
+  assert.deepEqual(rotten.state[0].tiles, []);
+  assert.deepEqual([...finalCtx.bag.letters].sort(), ["A", "Q", "Z"]);
+  assert.equal(rotten.state[1].status, "running");
+  assert.match(findRejection(applyAction(rotten.state, { type: "serve_plate", seat: 0 }, finalCtx).events)?.message ?? "", /rotten/);
+
+  const loose = placedBoard(boards[1], [
+    { id: "c", letter: "A", zone: "board", row: 1, col: 1 },
+    { id: "d", letter: "T", zone: "board", row: 3, col: 3 },
+  ]);
+  const lastCtx = { ...finalCtx, bag: { letters: [] } };
+  const everyoneRotten = applyAction([rotten.state[0], loose], { type: "serve_plate", seat: 1 }, lastCtx);
+  assert.deepEqual(
+    everyoneRotten.events.map((event) => event.type),
+    ["board_rotten", "round_lost"],
+  );
+});
+
+test("move_tile and assign_blank give a blank its letter and reject anything else", () => {
+  const { boards, ctx } = dealTable(20);
+  const withBlank = placedBoard(boards[0], [
+    ...boards[0].tiles,
+    { id: "blank", letter: BLANK_TILE, zone: "staging", row: null, col: null },
+  ]);
+  const table = [withBlank, boards[1]];
+  const letterTileId = boards[0].tiles[0].id;
+
+  const placed = applyAction(table, { type: "move_tile", seat: 0, tileId: "blank", row: 4, col: 4, letter: "é" }, ctx);
+  assert.deepEqual(placed.events[1], { type: "blank_assigned", seat: 0, tileId: "blank", letter: "E" });
+  assert.equal(placed.state[0].tiles.find((tile) => tile.id === "blank")?.assignedLetter, "E");
+
+  const reassigned = applyAction(placed.state, { type: "assign_blank", seat: 0, tileId: "blank", letter: "R" }, ctx);
+  assert.equal(reassigned.state[0].tiles.find((tile) => tile.id === "blank")?.assignedLetter, "R");
+
+  const notBlank = applyAction(table, { type: "assign_blank", seat: 0, tileId: letterTileId, letter: "R" }, ctx);
+  const badLetter = applyAction(table, { type: "move_tile", seat: 0, tileId: "blank", row: 4, col: 4, letter: "ß" }, ctx);
+  assert.match(findRejection(notBlank.events)?.message ?? "", /Only blank/);
+  assert.match(findRejection(badLetter.events)?.message ?? "", /tile set/);
+  assert.equal(badLetter.state, table);
+});
+
+test("trade_tile reports cooldowns and can serve the table when the policy says so", () => {
+  const rng = createSeededRandom(21);
+  const bag = createTileBag(rng);
+  const tradePolicy = { ...DEFAULT_TRADE_POLICY, cooldownMs: 4000, pressureTickOnTrade: true };
+  const boards = createTable({ players: 2, initialVisibleTiles: 3, seed: 21, tradePolicy }, 2, bag);
+  const ctx = { bag, rng };
+
+  const traded = applyAction(boards, { type: "trade_tile", seat: 0, tileId: boards[0].tiles[0].id, now: 10000 }, ctx);
+  assert.deepEqual(traded.events, [
+    { type: "tile_traded", seat: 0, tileId: boards[0].tiles[0].id },
+    { type: "table_served", seat: null },
+  ]);
+  assert.equal(traded.state[0].tiles.length, 3 + 2 + 1);
+  assert.equal(traded.state[1].tiles.length, 4);
+
+  const again = applyAction(
+    traded.state,
+    { type: "trade_tile", seat: 0, tileId: traded.state[0].tiles[0].id, now: 12500 },
+    ctx,
+  );
+  assert.equal(findRejection(again.events)?.message, "Your next trade is ready in 2s.");
+  assert.equal(again.state, traded.state);
+});
+
+test("replaying trades under a cooldown uses the time recorded on each trade", () => {
+  const tradePolicy = { ...DEFAULT_TRADE_POLICY, cooldownMs: 4000 };
+  const play = () => {
+    const rng = createSeededRandom(22);
+    const bag = createTileBag(rng);
+    const boards = createTable({ players: 2, initialVisibleTiles: 3, seed: 22, tradePolicy }, 2, bag);
+    const actions: GameAction[] = [
+      { type: "trade_tile", seat: 0, tileId: boards[0].tiles[0].id, now: 10000 },
+      { type: "trade_tile", seat: 0, tileId: boards[0].tiles[1].id, now: 15000 },
+    ];
+    return { ...replayActions(boards, actions, { bag, rng }), bag: bag.letters };
+  };
+
+  const first = play();
+  assert.deepEqual(
+    first.log.map((entry) => entry.events[0]?.type),
+    ["tile_traded", "tile_traded"],
+  );
+  assert.deepEqual(play(), first);
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import {
+  createDailyChallenge,
+  getDailyDate,
+  getDailyPressureSchedule,
+  getDailySeed,
+  isDailyDate,
+} from "../shared/game/daily";
+import { StatsStore } from "../server/stats/StatsStore";
+
+test("a daily challenge deals the same board and pressure schedule to everyone on that date", () => {
+  const first = createDailyChallenge("2026-10-19", "salt");
+  const second = createDailyChallenge("2026-10-19", "salt");
+  const nextDay = createDailyChallenge("2026-10-20", "salt");
+
+  assert.equal(first.seed, getDailySeed("2026-10-19", "salt"));
+  assert.deepEqual(second.board.tiles, first.board.tiles);
+  assert.deepEqual(second.bag.letters, first.bag.letters);
+  assert.deepEqual(
+    getDailyPressureSchedule("2026-10-19", "salt", 5),
+    getDailyPressureSchedule("2026-10-19", "salt", 5),
+  );
+  assert.notEqual(nextDay.seed, first.seed);
+  assert.notDeepEqual(nextDay.bag.letters, first.bag.letters);
+  assert.equal(first.board.config.players, 2);
+});
+
+test("the daily seed can't be worked out from the date without the server secret", () => {
+  assert.notEqual(getDailySeed("2026-10-19", "salt"), getDailySeed("2026-10-19", "pepper"));
+  assert.notDeepEqual(
+    createDailyChallenge("2026-10-19", "pepper").bag.letters,
+    createDailyChallenge("2026-10-19", "salt").bag.letters,
+  );
+});
+
+test("daily dates are UTC calendar days", () => {
+  assert.equal(getDailyDate(Date.parse("2026-10-19T23:59:59Z")), "2026-10-19");
+  assert.equal(isDailyDate("2026-10-19"), true);
+  assert.equal(isDailyDate("2026-02-30"), false);
+  assert.equal(isDailyDate("19-10-2026"), false);
+});
+
+test("the daily leaderboard keeps one result per player per day and survives a reload", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "bisquits-stats-"));
+  const filePath = join(directory, "stats.json");
+  try {
+    const store = new StatsStore(filePath);
+    await store.init();
+    const result = { completed: true, score: 40, longestWord: "CRUMB", durationMs: 90000 };
+
+    assert.equal(await store.recordDailyResult("2026-10-19", { ...result, name: "Ada" }), true);
+    assert.equal(await store.recordDailyResult("2026-10-19", { ...result, name: "ada", score: 99 }), false);
+    await store.recordDailyResult("2026-10-19", { ...result, name: "Bo", durationMs: 60000 });
+    await store.recordDailyResult("2026-10-19", { ...result, name: "Cy", completed: false, score: 80 });
+    await store.recordDailyResult("2026-10-20", { ...result, name: "Ada", score: 10 });
+    assert.equal(await store.recordDailyResult("2026-10-19", { ...result, name: "Dee", durationMs: 120000 }, "k1"), true);
+    assert.equal(await store.recordDailyResult("2026-10-19", { ...result, name: "Eve", score: 99 }, "k1"), false);
+
+    const reloaded = new StatsStore(filePath);
+    await reloaded.init();
+    const leaderboard = await reloaded.getDailyLeaderboard("2026-10-19");
+    assert.deepEqual(
+      leaderboard.results.map((entry) => [entry.name, entry.score]),
+      [
+        ["Bo", 40],
+        ["Ada", 40],
+        ["Dee", 40],
+        ["Cy", 80],
+      ],
+    );
+    assert.equal((await reloaded.getSnapshot()).totalMatches, 0);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -2,14 +2,42 @@ import assert from "node:assert/strict";
 import test from "node:test";
 
 import {
+  analyzeBoardConnectivity,
   applyPressureTick,
+  assignBlankLetter,
+  BLANK_TILE,
+  applyTablePressureTick,
+  canServeRound,
   canTradeTile,
+  checkTileTranslation,
+  checkTrade,
   createGame,
+  createSeededRandom,
+  createTable,
+  createTileBag,
+  DEFAULT_SCORING_RULES,
+  DEFAULT_TRADE_POLICY,
+  extractBoardWords,
+  findLongestBoardWord,
+  getBoardBounds,
   moveTile,
+  moveTiles,
+  nextPressureDelayMs,
+  redoMove,
+  returnTileToShelf,
+  rotBoard,
+  scoreBoard,
   servePlate,
+  serveTable,
+  toPublicGameState,
   tradeTile,
+  undoMove,
+  validateBoardWords,
+  validateGameState,
   type GameState,
+  type TileBag,
 } from "../shared/game/engine";
+import { createWordDictionary } from "../shared/game/dictionary";
 
 function firstStagingTileId(state: GameState): string {
   const tile = state.tiles.find((candidate) => candidate.zone === "staging");
@@ -17,8 +45,18 @@ function firstStagingTileId(state: GameState): string {
   return tile.id;
 }
 
+function tilePosition(state: GameState, tileId: string): { zone: string; row: number | null; col: number | null } {
+  const tile = state.tiles.find((candidate) => candidate.id === tileId);
+  assert.ok(tile, `expected tile ${tileId}`);
+  return { zone: tile.zone, row: tile.row, col: tile.col };
+}
+
+function bagOf(length: number, letter = "A"): TileBag {
+  return { letters: Array.from({ length }, () => letter) };
+}
+
 test("createGame clamps players and populates shelf", () => {
-  const state = createGame({ players: 9 }, () => 0.42);
+  const state = createGame({ players: 9 }, createTileBag(() => 0.42));
 
   assert.equal(state.config.players, 4);
   assert.equal(state.status, "running");
@@ -27,7 +65,7 @@ test("createGame clamps players and populates shelf", () => {
 });
 
 test("moveTile places a staging tile on board", () => {
-  const state = createGame({ players: 2, initialVisibleTiles: 3, rows: 6, cols: 6 }, () => 0.25);
+  const state = createGame({ players: 2, initialVisibleTiles: 3, rows: 6, cols: 6 }, createTileBag(() => 0.25));
   const tileId = firstStagingTileId(state);
 
   const next = moveTile(state, tileId, 2, 3);
@@ -41,7 +79,7 @@ test("moveTile places a staging tile on board", () => {
 });
 
 test("moveTile swaps board tiles when destination is occupied", () => {
-  let state = createGame({ players: 2, initialVisibleTiles: 2, rows: 6, cols: 6 }, () => 0.75);
+  let state = createGame({ players: 2, initialVisibleTiles: 2, rows: 6, cols: 6 }, createTileBag(() => 0.75));
   const staging = state.tiles.filter((tile) => tile.zone === "staging");
   assert.equal(staging.length, 2);
 
@@ -64,46 +102,433 @@ test("moveTile swaps board tiles when destination is occupied", () => {
 });
 
 test("tradeTile exchanges one tile for three", () => {
-  const state = createGame({ players: 2, initialVisibleTiles: 4 }, () => 0.11);
+  const bag = createTileBag(() => 0.11);
+  const state = createGame({ players: 2, initialVisibleTiles: 4 }, bag);
   const tileId = firstStagingTileId(state);
+  const bagBeforeTrade = bag.letters.length;
 
-  assert.equal(canTradeTile(state), true);
-  const traded = tradeTile(state, tileId, () => 0);
+  assert.equal(canTradeTile(bag), true);
+  const traded = tradeTile(state, tileId, bag, () => 0);
 
   assert.equal(traded.turn, state.turn + 1);
   assert.equal(traded.tiles.length, state.tiles.length + 2);
-  assert.equal(traded.drawPile.length, state.drawPile.length - 2);
+  assert.equal(bag.letters.length, bagBeforeTrade - 2);
   assert.match(traded.lastAction, /Traded/);
 
   // Ensure the input state wasn't mutated.
   assert.equal(state.tiles.length, 4);
 });
 
+test("tradeTile follows the table's trade policy for ratio, cooldown and round limit", () => {
+  const bag = createTileBag(() => 0.12);
+  const tradePolicy = { ...DEFAULT_TRADE_POLICY, tilesPerTrade: 2, cooldownMs: 5000, maxTradesPerRound: 2 };
+  let state = createGame({ players: 2, initialVisibleTiles: 4, tradePolicy }, bag);
+  assert.equal(state.config.tradePolicy.pressureTickOnTrade, false);
+
+  state = tradeTile(state, firstStagingTileId(state), bag, () => 0, 1000);
+  assert.equal(state.tiles.length, 5);
+  assert.equal(state.tradeCount, 1);
+  assert.deepEqual(checkTrade(state, bag, 3000), { valid: false, reason: "cooldown", availableAt: 6000 });
+
+  const coolingDown = tradeTile(state, firstStagingTileId(state), bag, () => 0, 3000);
+  assert.equal(coolingDown.tiles, state.tiles);
+  assert.match(coolingDown.lastAction, /cooling down/);
+
+  state = tradeTile(state, firstStagingTileId(state), bag, () => 0, 6000);
+  assert.equal(state.tradeCount, 2);
+  assert.equal(checkTrade(state, bag, 60000).reason, "limit");
+  assert.equal(checkTrade(state, { letters: ["A", "B"] }, 60000).reason, "bag_low");
+});
+
 test("servePlate ends in win when no full round can be served", () => {
-  const state = createGame({ players: 4, initialVisibleTiles: 0 }, () => 0.33);
+  const state = createGame({ players: 4, initialVisibleTiles: 0 }, createTileBag(() => 0.33));
   const nearEnd: GameState = {
     ...state,
-    drawPile: Array.from({ length: state.config.players }, () => "A"),
     lastAction: "Before final serve",
   };
 
-  const served = servePlate(nearEnd);
+  const served = servePlate(nearEnd, bagOf(state.config.players));
 
   assert.equal(served.status, "won");
   assert.match(served.lastAction, /won/i);
 });
 
 test("applyPressureTick ends in loss when no full round can be served", () => {
-  const state = createGame({ players: 4, initialVisibleTiles: 0 }, () => 0.66);
+  const state = createGame({ players: 4, initialVisibleTiles: 0 }, createTileBag(() => 0.66));
   const nearEnd: GameState = {
     ...state,
-    drawPile: Array.from({ length: state.config.players }, () => "A"),
     lastAction: "Before pressure",
   };
 
-  const pressured = applyPressureTick(nearEnd);
+  const pressured = applyPressureTick(nearEnd, bagOf(state.config.players));
 
   assert.equal(pressured.status, "lost");
   assert.notEqual(pressured.lastAction, nearEnd.lastAction);
   assert.equal(pressured.lastAction.length > 0, true);
 });
+
+test("validateBoardWords reports every invalid horizontal and vertical run", () => {
+  const state = createGame({ players: 2, initialVisibleTiles: 0 }, createTileBag(() => 0.5));
+  const board: GameState = {
+    ...state,
+    tiles: [
+      { id: "t1", letter: "C", zone: "board", row: 2, col: 2 },
+      { id: "t2", letter: "A", zone: "board", row: 2, col: 3 },
+      { id: "t3", letter: "T", zone: "board", row: 2, col: 4 },
+      { id: "t4", letter: "X", zone: "board", row: 3, col: 3 },
+      { id: "t5", letter: "Q", zone: "board", row: 3, col: 4 },
+    ],
+  };
+
+  const dictionary = createWordDictionary(["cat", "ax"]);
+  const validation = validateBoardWords(board, dictionary);
+
+  assert.equal(validation.valid, false);
+  assert.deepEqual(validation.invalidWords, [
+    { word: "TQ", row: 2, col: 4, direction: "down", tileIds: ["t3", "t5"] },
+    { word: "XQ", row: 3, col: 3, direction: "across", tileIds: ["t4", "t5"] },
+  ]);
+
+  const fixed = validateBoardWords(board, createWordDictionary(["cat", "ax", "tq", "xq"]));
+  assert.equal(fixed.valid, true);
+  assert.deepEqual(fixed.invalidWords, []);
+});
+
+test("analyzeBoardConnectivity groups board tiles into islands", () => {
+  const state = createGame({ players: 2, initialVisibleTiles: 0 }, createTileBag(() => 0.5));
+  const board: GameState = {
+    ...state,
+    tiles: [
+      { id: "t1", letter: "C", zone: "board", row: 2, col: 2 },
+      { id: "t2", letter: "A", zone: "board", row: 2, col: 3 },
+      { id: "t3", letter: "T", zone: "board", row: 3, col: 3 },
+      { id: "t4", letter: "O", zone: "board", row: 6, col: 6 },
+      { id: "t5", letter: "X", zone: "board", row: 3, col: 2 },
+      { id: "t6", letter: "Q", zone: "staging", row: null, col: null },
+    ],
+  };
+
+  const split = analyzeBoardConnectivity(board);
+  assert.equal(split.connected, false);
+  assert.equal(split.components.length, 2);
+  assert.deepEqual([...split.components[0]].sort(), ["t1", "t2", "t3", "t5"]);
+  assert.deepEqual(split.orphanTileIds, ["t4"]);
+
+  const joined = analyzeBoardConnectivity(moveTile(board, "t4", 4, 3));
+  assert.equal(joined.connected, true);
+  assert.deepEqual(joined.orphanTileIds, []);
+});
+
+test("boards at one table share a bag that conserves every letter", () => {
+  const bag = createTileBag(() => 0.2);
+  const originalLetters = [...bag.letters].sort();
+  let boards = createTable({ players: 3, initialVisibleTiles: 5 }, 3, bag);
+
+  assert.equal(bag.letters.length, originalLetters.length - 15);
+  boards = [tradeTile(boards[0], firstStagingTileId(boards[0]), bag, () => 0.5), boards[1], boards[2]];
+  boards = serveTable(boards, bag);
+
+  assert.equal(boards.every((board) => board.tiles.length === (board === boards[0] ? 8 : 6)), true);
+  const lettersInPlay = [...bag.letters, ...boards.flatMap((board) => board.tiles.map((tile) => tile.letter))].sort();
+  assert.deepEqual(lettersInPlay, originalLetters);
+});
+
+test("solo boards burn a share of each round for empty seats", () => {
+  const bag = createTileBag(() => 0.9);
+  const before = bag.letters.length;
+  const state = createGame({ players: 4, initialVisibleTiles: 2 }, bag);
+
+  assert.equal(state.tiles.length, 2);
+  assert.equal(bag.letters.length, before - 8);
+});
+
+test("rotten seats burn their share of each round like empty ones", () => {
+  const bag = createTileBag(() => 0.9);
+  let boards = createTable({ players: 4, initialVisibleTiles: 2 }, 3, bag);
+  boards = rotBoard(boards, 1, bag, () => 0.5);
+  const before = bag.letters.length;
+
+  boards = serveTable(boards, bag);
+  assert.equal(bag.letters.length, before - 4);
+  assert.deepEqual(boards.map((board) => board.tiles.length), [3, 0, 3]);
+
+  bag.letters.splice(4);
+  assert.equal(canServeRound(boards[0], bag, 2), false);
+  assert.equal(canServeRound(boards[0], bag, 4), false);
+  bag.letters.push("E");
+  assert.equal(canServeRound(boards[0], bag, 2), true);
+  assert.equal(canServeRound(boards[0], bag, 6), false);
+});
+
+test("the same seed and actions replay an identical round", () => {
+  const playRound = (): { boards: GameState[]; bag: TileBag } => {
+    const rng = createSeededRandom(1234);
+    const bag = createTileBag(rng);
+    let boards = createTable({ players: 2, seed: 1234 }, 2, bag);
+    boards = [tradeTile(boards[0], firstStagingTileId(boards[0]), bag, rng), boards[1]];
+    boards = serveTable(boards, bag);
+    return { boards, bag };
+  };
+
+  const first = playRound();
+  assert.deepEqual(playRound(), first);
+  assert.equal(first.boards[0].config.seed, 1234);
+
+  assert.deepEqual(createGame({ seed: 99 }), createGame({ seed: 99 }));
+  assert.notDeepEqual(createGame({ seed: 99 }).tiles, createGame({ seed: 100 }).tiles);
+});
+
+test("pressure delays stay inside the configured range", () => {
+  const state = createGame({ pressureRangeMs: [4000, 6000], seed: 7 });
+
+  assert.equal(nextPressureDelayMs(state.config, () => 0), 4000);
+  assert.equal(nextPressureDelayMs(state.config, () => 0.5), 5000);
+  assert.equal(nextPressureDelayMs({ ...state.config, pressureRangeMs: [6000, 4000] }, () => 0), 4000);
+});
+
+test("public game state withholds the round seed and reports only the bag count", () => {
+  const bag = createTileBag(createSeededRandom(42));
+  const state = createGame({ seed: 42 }, bag);
+  const projected = toPublicGameState(state, bag);
+
+  assert.equal("seed" in projected.config, false);
+  assert.equal(projected.bagCount, bag.letters.length);
+  assert.deepEqual(projected.tiles, state.tiles);
+});
+
+test("scoreBoard totals letter values, length bonuses and shelf penalties", () => {
+  const state = createGame({ initialVisibleTiles: 0 });
+  state.tiles = [
+    { id: "a", letter: "Q", zone: "board", row: 1, col: 1 },
+    { id: "b", letter: "U", zone: "board", row: 1, col: 2 },
+    { id: "c", letter: "I", zone: "board", row: 1, col: 3 },
+    { id: "d", letter: "T", zone: "board", row: 1, col: 4 },
+    { id: "e", letter: "E", zone: "board", row: 1, col: 5 },
+    { id: "f", letter: "S", zone: "board", row: 2, col: 1 },
+    { id: "g", letter: "Z", zone: "staging", row: null, col: null },
+  ];
+
+  const score = scoreBoard(state);
+  assert.deepEqual(
+    score.words.map((word) => [word.word, word.points]),
+    [
+      ["QUITE", 14],
+      ["QS", 11],
+    ],
+  );
+  assert.equal(score.wordPoints, 25);
+  assert.equal(score.lengthBonus, 2);
+  assert.equal(score.shelfPenalty, 10);
+  assert.equal(score.total, 17);
+
+  const flat = scoreBoard(state, { ...DEFAULT_SCORING_RULES, lengthBonusPerLetter: 0, shelfPenaltyMultiplier: 0 });
+  assert.equal(flat.total, 25);
+});
+
+test("undoMove and redoMove step through board rearrangements only", () => {
+  const bag = createTileBag(() => 0.5);
+  let state = createGame({ players: 2, initialVisibleTiles: 3, rows: 6, cols: 6 }, bag);
+  const [first, second, third] = state.tiles.map((tile) => tile.id);
+  state = moveTile(state, first, 1, 1);
+  state = moveTile(state, second, 1, 2);
+  state = moveTile(state, second, 1, 1);
+
+  const swappedBack = undoMove(state);
+  assert.deepEqual(tilePosition(swappedBack, first), { zone: "board", row: 1, col: 1 });
+  assert.deepEqual(tilePosition(swappedBack, second), { zone: "board", row: 1, col: 2 });
+  assert.deepEqual(redoMove(swappedBack).tiles, state.tiles);
+
+  const bagBeforeTrade = bag.letters.length;
+  const traded = tradeTile(undoMove(swappedBack), first, bag, () => 0);
+  const afterTradeUndo = undoMove(traded);
+  assert.equal(bag.letters.length, bagBeforeTrade + 1 - 3);
+  assert.equal(afterTradeUndo, traded);
+  assert.equal(undoMove(moveTile(traded, third, 2, 2)).tiles.length, traded.tiles.length);
+
+  const fresh = moveTile(swappedBack, third, 3, 3);
+  assert.equal(fresh.history.redo.length, 0);
+  assert.equal(redoMove(fresh), fresh);
+});
+
+test("returnTileToShelf lifts a board tile back onto the shelf as an undoable move", () => {
+  let state = createGame({ players: 2, initialVisibleTiles: 2, rows: 6, cols: 6 }, createTileBag(() => 0.2));
+  const tileId = firstStagingTileId(state);
+  state = moveTile(state, tileId, 4, 4);
+
+  const returned = returnTileToShelf(state, tileId);
+  assert.deepEqual(tilePosition(returned, tileId), { zone: "staging", row: null, col: null });
+  assert.match(returned.lastAction, /Returned/);
+  assert.deepEqual(tilePosition(undoMove(returned), tileId), { zone: "board", row: 4, col: 4 });
+  assert.equal(returnTileToShelf(returned, tileId), returned);
+});
+
+test("moveTiles translates a selection atomically and refuses edges and collisions", () => {
+  let state = createGame({ players: 2, initialVisibleTiles: 3, rows: 6, cols: 6 }, createTileBag(() => 0.4));
+  const [first, second, third] = state.tiles.map((tile) => tile.id);
+  state = moveTile(state, first, 2, 2);
+  state = moveTile(state, second, 2, 3);
+  state = moveTile(state, third, 4, 3);
+
+  const shifted = moveTiles(state, [first, second], 1, 1);
+  assert.deepEqual(tilePosition(shifted, first), { zone: "board", row: 3, col: 3 });
+  assert.deepEqual(tilePosition(shifted, second), { zone: "board", row: 3, col: 4 });
+  assert.deepEqual(undoMove(shifted).tiles, state.tiles);
+
+  assert.equal(checkTileTranslation(state, [first, second], 0, 4).reason, "off_board");
+  assert.equal(checkTileTranslation(state, [first, second], 2, 0).reason, "collision");
+  assert.equal(checkTileTranslation(state, [first, second], 0, -1).valid, true);
+  assert.equal(checkTileTranslation(state, [first, "missing"], 1, 0).reason, "not_on_board");
+  assert.equal(moveTiles(state, [first, second], 2, 0), state);
+});
+
+test("expanding boards accept cells past the grid and grow their bounds around the tiles", () => {
+  const fixed = createGame({ players: 2, initialVisibleTiles: 2, rows: 6, cols: 6 }, createTileBag(() => 0.4));
+  assert.deepEqual(getBoardBounds(fixed), { minRow: 1, minCol: 1, rows: 6, cols: 6 });
+
+  let state = createGame(
+    { players: 2, initialVisibleTiles: 2, rows: 6, cols: 6, boardMode: "expanding" },
+    createTileBag(() => 0.4),
+  );
+  const [first, second] = state.tiles.map((tile) => tile.id);
+  assert.deepEqual(getBoardBounds(state), { minRow: 1, minCol: 1, rows: 6, cols: 6 });
+
+  state = moveTile(state, first, 0, 9);
+  state = moveTile(state, second, 1, 9);
+  assert.deepEqual(tilePosition(state, first), { zone: "board", row: 0, col: 9 });
+  assert.deepEqual(getBoardBounds(state), { minRow: -2, minCol: 1, rows: 9, cols: 11 });
+
+  assert.equal(checkTileTranslation(state, [first, second], -20, 20).valid, true);
+  assert.deepEqual(tilePosition(moveTiles(state, [first, second], -20, 20), second), { zone: "board", row: -19, col: 29 });
+});
+
+test("extractBoardWords lists every run with its start cell, direction and tiles", () => {
+  const state = createGame({ players: 2, initialVisibleTiles: 0 }, createTileBag(() => 0.5));
+  state.tiles = [
+    { id: "s", letter: "S", zone: "board", row: 1, col: 1 },
+    { id: "u", letter: "U", zone: "board", row: 1, col: 2 },
+    { id: "n", letter: "N", zone: "board", row: 1, col: 3 },
+    { id: "o", letter: "O", zone: "board", row: 2, col: 3 },
+    { id: "w", letter: "W", zone: "board", row: 3, col: 3 },
+    { id: "x", letter: "X", zone: "board", row: 5, col: 5 },
+    { id: "z", letter: "Z", zone: "staging", row: null, col: null },
+  ];
+
+  assert.deepEqual(extractBoardWords(state), [
+    { word: "SUN", row: 1, col: 1, direction: "across", tileIds: ["s", "u", "n"] },
+    { word: "NOW", row: 1, col: 3, direction: "down", tileIds: ["n", "o", "w"] },
+  ]);
+  assert.equal(findLongestBoardWord(state), "SUN");
+  assert.equal(findLongestBoardWord({ tiles: [] }), "");
+});
+
+test("classic tables split by player count, peel without burning seats and call bananas when the bunch runs dry", () => {
+  const bag = createTileBag(() => 0.3);
+  const before = bag.letters.length;
+  let boards = createTable({ players: 4, variant: "classic" }, 2, bag);
+
+  assert.deepEqual(
+    boards.map((board) => board.tiles.length),
+    [21, 21],
+  );
+  assert.equal(bag.letters.length, before - 42);
+  assert.equal(applyTablePressureTick(boards, bag), boards);
+
+  bag.letters.splice(2);
+  boards = serveTable(boards, bag);
+  assert.deepEqual(
+    boards.map((board) => board.tiles.length),
+    [22, 22],
+  );
+  assert.match(boards[0].lastAction, /Peel/);
+
+  boards = serveTable(boards, bag);
+  assert.equal(boards.every((board) => board.status === "won"), true);
+  assert.match(boards[0].lastAction, /Bananas/);
+});
+
+test("rotBoard returns a seat's tiles to the bag and later serves skip it", () => {
+  const bag = createTileBag(() => 0.6);
+  const before = bag.letters.length;
+  let boards = createTable({ players: 2, initialVisibleTiles: 4 }, 2, bag);
+
+  boards = rotBoard(boards, 1, bag, () => 0.5);
+  assert.equal(boards[1].status, "rotten");
+  assert.equal(bag.letters.length, before - 4);
+
+  boards = serveTable(boards, bag);
+  assert.deepEqual(
+    boards.map((board) => [board.status, board.tiles.length]),
+    [
+      ["running", 5],
+      ["rotten", 0],
+    ],
+  );
+  assert.equal(rotBoard(boards, 1, bag), boards);
+});
+
+test("validateGameState accepts engine-built tables and reports structured violations", () => {
+  const rng = createSeededRandom(41);
+  const bag = createTileBag(rng);
+  const boards = createTable({ players: 2, initialVisibleTiles: 4, seed: 41 }, 2, bag);
+  assert.deepEqual(validateGameState(boards, bag), []);
+  assert.deepEqual(validateGameState(serveTable(boards, bag), bag), []);
+
+  const broken: GameState = {
+    ...boards[0],
+    nextTileId: 3,
+    tiles: [
+      { id: "t1", letter: "A", zone: "board", row: 2, col: 2 },
+      { id: "t2", letter: "B", zone: "board", row: 2, col: 2 },
+      { id: "t2", letter: "C", zone: "board", row: null, col: null },
+      { id: "t9", letter: "D", zone: "staging", row: 1, col: 1 },
+      { id: "x", letter: "Ñ", zone: "board", row: 40, col: 1 },
+    ],
+  };
+  const violations = validateGameState([broken], { letters: Array.from({ length: 20 }, () => "Q") });
+  assert.deepEqual(
+    violations.map(({ code, seat, tileIds }) => ({ code, seat, tileIds })),
+    [
+      { code: "duplicate_tile_id", seat: 0, tileIds: ["t2"] },
+      { code: "missing_cell", seat: 0, tileIds: ["t2"] },
+      { code: "stale_tile_counter", seat: 0, tileIds: ["t9"] },
+      { code: "stray_cell", seat: 0, tileIds: ["t9"] },
+      { code: "off_board", seat: 0, tileIds: ["x"] },
+      { code: "shared_cell", seat: 0, tileIds: ["t1", "t2"] },
+      { code: "letter_surplus", seat: null, tileIds: [] },
+      { code: "unknown_letter", seat: null, tileIds: ["x"] },
+    ],
+  );
+});
+
+test("blank bisquits join the bag on request and spell with the letter assigned to them", () => {
+  const bag = createTileBag(createSeededRandom(42), "en", 2);
+  assert.equal(bag.letters.length, 140);
+  assert.equal(bag.letters.filter((letter) => letter === BLANK_TILE).length, 2);
+
+  const board: GameState = {
+    ...createGame({ rows: 9, cols: 9, initialVisibleTiles: 0, blankTiles: 2 }),
+    tiles: [
+      { id: "c", letter: "C", zone: "board", row: 2, col: 2 },
+      { id: "a", letter: "A", zone: "board", row: 2, col: 3 },
+      { id: "b", letter: BLANK_TILE, zone: "board", row: 2, col: 4 },
+    ],
+  };
+  assert.equal(findLongestBoardWord(board), "CA?");
+
+  const assigned = assignBlankLetter(board, "b", "t");
+  assert.equal(assigned.tiles[2].assignedLetter, "T");
+  assert.equal(findLongestBoardWord(assigned), "CAT");
+  assert.equal(validateBoardWords(assigned, createWordDictionary(["cat"])).valid, true);
+  assert.equal(scoreBoard(assigned).wordPoints, 4);
+  assert.equal(assignBlankLetter(assigned, "b", "s").tiles[2].assignedLetter, "S");
+  assert.equal(assignBlankLetter(assigned, "a", "s"), assigned);
+  assert.equal(assignBlankLetter(assigned, "b", "7"), assigned);
+  assert.equal(moveTile(assigned, "b", 3, 4).lastAction, "Moved T to 3,4.");
+
+  assert.deepEqual(validateGameState([assigned], { letters: [] }), []);
+  const stray = { ...assigned, tiles: [{ ...assigned.tiles[0], assignedLetter: "Z" }] };
+  assert.deepEqual(
+    validateGameState([stray], { letters: [] }).map((violation) => violation.code),
+    ["stray_assignment"],
+  );
+});
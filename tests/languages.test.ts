@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import { DictionaryStore } from "../server/dictionary/DictionaryStore";
+import { createWordDictionary } from "../shared/game/dictionary";
+import { createGame, createSeededRandom, createTileBag, scoreBoard, type Tile } from "../shared/game/engine";
+import { foldWordForPack, LANGUAGE_PACKS, splitIntoTileLetters } from "../shared/game/languages";
+import { formatBoardNotation, parseBoardNotation } from "../shared/game/notation";
+import { findWordPlacement } from "../shared/game/solver";
+
+test("every non-English pack fills a 144-bisquit bag and scores each of its letters", () => {
+  for (const code of ["es", "fr", "de", "nl"] as const) {
+    const pack = LANGUAGE_PACKS[code];
+    assert.equal(pack.distribution.length, 144, code);
+    for (const letter of new Set(pack.distribution)) {
+      assert.equal(typeof pack.letterValues[letter], "number", `${code} ${letter}`);
+    }
+  }
+});
+
+test("word folding keeps a pack's own letters and drops other accents", () => {
+  assert.equal(foldWordForPack("año", LANGUAGE_PACKS.es), "AÑO");
+  assert.equal(foldWordForPack("canción", LANGUAGE_PACKS.es), "CANCION");
+  assert.equal(foldWordForPack("été", LANGUAGE_PACKS.fr), "ETE");
+  assert.equal(foldWordForPack("Müde", LANGUAGE_PACKS.de), "MÜDE");
+  assert.deepEqual(splitIntoTileLetters("IJS", LANGUAGE_PACKS.nl), ["IJ", "S"]);
+  assert.deepEqual(splitIntoTileLetters("IJS", LANGUAGE_PACKS.en), ["I", "J", "S"]);
+});
+
+test("Dutch rounds deal IJ bisquits, score them and spell words with them", () => {
+  const bag = createTileBag(createSeededRandom(5), "nl");
+  assert.equal(bag.letters.filter((letter) => letter === "IJ").length, 2);
+
+  const shelf: Tile[] = ["S", "IJ", "K"].map((letter, index) => ({
+    id: `s${index}`,
+    letter,
+    zone: "staging",
+    row: null,
+    col: null,
+  }));
+  const state = { ...createGame({ rows: 9, cols: 9, initialVisibleTiles: 0, language: "nl" }), tiles: shelf };
+  const dictionary = createWordDictionary(["ijs"], (word) => foldWordForPack(word, LANGUAGE_PACKS.nl));
+
+  const placement = findWordPlacement(state, dictionary);
+  assert.equal(placement?.word, "IJS");
+  assert.deepEqual(placement?.moves.map((move) => move.tileId), ["s1", "s0"]);
+
+  const placed = {
+    ...state,
+    tiles: state.tiles.map((tile) => {
+      const move = placement?.moves.find((candidate) => candidate.tileId === tile.id);
+      return move ? { ...tile, zone: "board" as const, row: move.row, col: move.col } : tile;
+    }),
+  };
+  assert.equal(scoreBoard(placed).wordPoints, 6);
+});
+
+test("board notation carries a non-English language through a round-trip", () => {
+  const bag = createTileBag(createSeededRandom(8), "nl");
+  const state = createGame({ players: 2, initialVisibleTiles: 4, language: "nl", seed: 8 }, bag);
+  const text = formatBoardNotation(state, 100);
+
+  assert.match(text, / bisquits\/2\/nl /);
+  assert.equal(parseBoardNotation(text).state.config.language, "nl");
+  assert.equal(formatBoardNotation(parseBoardNotation(text).state, 100), text);
+  assert.throws(() => parseBoardNotation(text.replace("/nl", "/xx")), /seating/);
+});
+
+test("a language whose word list is missing plays unchecked unless word lists are required", async (t) => {
+  const directory = await mkdtemp(join(tmpdir(), "bisquits-words-"));
+  t.mock.method(console, "error", () => {});
+  t.mock.method(console, "log", () => {});
+  try {
+    await writeFile(join(directory, "en.txt"), "crumb\n", "utf8");
+    const unchecked = new DictionaryStore((language) => join(directory, `${language}.txt`), false);
+    await unchecked.init();
+    assert.equal(unchecked.requireDictionary("en")?.has("CRUMB"), true);
+    assert.equal(unchecked.requireDictionary("nl"), null);
+
+    const strict = new DictionaryStore((language) => join(directory, `${language}.txt`), true);
+    await strict.init();
+    assert.equal(strict.requireDictionary("en")?.has("CRUMB"), true);
+    assert.throws(() => strict.requireDictionary("nl"), /no Nederlands word list/);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
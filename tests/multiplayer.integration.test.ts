@@ -1,10 +1,15 @@
 import assert from "node:assert/strict";
 import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
 import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import test from "node:test";
 
 import { Client as ColyseusClient, type Room } from "colyseus.js";
 
+import { createDailyChallenge, getDailyDate, getDailySeed } from "../shared/game/daily";
+
 interface StartedServer {
   child: ChildProcessWithoutNullStreams;
   logs: () => string;
@@ -35,12 +40,18 @@ function getRandomPort(): Promise<number> {
   });
 }
 
-function startServer(port: number): Promise<StartedServer> {
+// Pressure ticks are pushed far out by default so they never race the bag arithmetic in these tests,
+// and state checks run after every action so a corrupting action fails loudly.
+function startServer(port: number, env: Record<string, string> = {}): Promise<StartedServer> {
   const child = spawn("pnpm", ["run", "server"], {
     cwd: process.cwd(),
     env: {
       ...process.env,
       COLYSEUS_PORT: String(port),
+      BISQUITS_PRESSURE_MIN_MS: "600000",
+      BISQUITS_PRESSURE_MAX_MS: "600000",
+      BISQUITS_DEBUG_STATE: "1",
+      ...env,
     },
     stdio: ["ignore", "pipe", "pipe"],
     detached: true,
@@ -131,6 +142,7 @@ function waitForRoomState(
   timeoutMs = 5000,
 ): Promise<Record<string, unknown>> {
   return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
     const checkAndResolve = (): boolean => {
       const json = roomStateToJson(room);
       if (predicate(json)) {
@@ -145,7 +157,7 @@ function waitForRoomState(
       return;
     }
 
-    const timer = setTimeout(() => {
+    timer = setTimeout(() => {
       reject(new Error(`Timed out waiting for room state. Last state: ${JSON.stringify(roomStateToJson(room))}`));
     }, timeoutMs);
 
@@ -318,6 +330,54 @@ test("multiplayer integration: at most two rooms can be created", { timeout: 600
   }
 });
 
+test("multiplayer integration: daily rooms don't take a table's room slot", { timeout: 60000 }, async () => {
+  const port = await getRandomPort();
+  const server = await startServer(port);
+  const endpoint = `ws://localhost:${port}`;
+
+  try {
+    const daily = await new ColyseusClient(endpoint).create("bisquits", { name: "Solo", daily: true });
+    const roomA = await new ColyseusClient(endpoint).create("bisquits", { name: "Alpha" });
+    const roomB = await new ColyseusClient(endpoint).create("bisquits", { name: "Beta" });
+    assert.ok(daily.roomId && roomA.roomId && roomB.roomId);
+
+    const secondDaily = await new ColyseusClient(endpoint).create("bisquits", { name: "Solo Two", daily: true });
+    assert.ok(secondDaily.roomId);
+  } finally {
+    await server.stop();
+  }
+});
+
+test("multiplayer integration: rooms open without a word list unless word lists are required", { timeout: 60000 }, async () => {
+  const directory = await mkdtemp(join(tmpdir(), "bisquits-no-words-"));
+  const uncheckedPort = await getRandomPort();
+  const uncheckedServer = await startServer(uncheckedPort, { BISQUITS_WORDLIST_DIR: directory });
+  try {
+    const room = await new ColyseusClient(`ws://localhost:${uncheckedPort}`).create("bisquits", { name: "Ada" });
+    assert.ok(room.roomId);
+    await room.leave().catch(() => {
+      // Ignore teardown race conditions.
+    });
+  } finally {
+    await uncheckedServer.stop();
+  }
+
+  const strictPort = await getRandomPort();
+  const strictServer = await startServer(strictPort, {
+    BISQUITS_WORDLIST_DIR: directory,
+    BISQUITS_REQUIRE_WORD_LISTS: "1",
+  });
+  try {
+    await assert.rejects(
+      new ColyseusClient(`ws://localhost:${strictPort}`).create("bisquits", { name: "Ada" }),
+      /no English word list/,
+    );
+  } finally {
+    await strictServer.stop();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
 test("multiplayer integration: create, join, ready, start", { timeout: 60000 }, async () => {
   const port = await getRandomPort();
   const server = await startServer(port);
@@ -398,14 +458,16 @@ test("multiplayer integration: create, join, ready, start", { timeout: 60000 },
     const guestStartSnapshot = await guestStartSnapshotPromise;
 
     assert.equal(snapshot.reason, "start_game");
-    assert.equal(snapshot.nextPressureAt, 0);
+    assert.ok((snapshot.nextPressureAt ?? 0) > Date.now());
     assert.equal(snapshot.gameState.status, "running");
     assert.equal(typeof snapshot.bagCount, "number");
     assert.ok(Array.isArray(snapshot.gameState.tiles));
     assert.ok(snapshot.gameState.tiles.length > 0);
     assert.equal(guestStartSnapshot.reason, "start_game");
-    assert.equal(guestStartSnapshot.nextPressureAt, 0);
+    assert.equal(guestStartSnapshot.nextPressureAt, snapshot.nextPressureAt);
     assert.equal(snapshot.bagCount, guestStartSnapshot.bagCount);
+    assert.equal(JSON.stringify(snapshot.gameState).includes("seed"), false);
+    assert.equal((snapshot.gameState as { bagCount?: number }).bagCount, snapshot.bagCount);
 
     const guestSawHostMovePromise = waitForMessage<{
       reason: string;
@@ -478,6 +540,36 @@ test("multiplayer integration: create, join, ready, start", { timeout: 60000 },
       col: 2,
     });
 
+    const guestUndoSnapshotPromise = waitForGameSnapshot(guestRoom, (message) => message.reason === "undo", 7000);
+    guestRoom.send("action_undo");
+    const guestUndoSnapshot = await guestUndoSnapshotPromise;
+    assert.deepEqual(tilePositionById(guestUndoSnapshot, "t1"), {
+      zone: "staging",
+      row: null,
+      col: null,
+    });
+    assert.equal(guestUndoSnapshot.bagCount, snapshot.bagCount);
+
+    const guestRedoSnapshotPromise = waitForGameSnapshot(guestRoom, (message) => message.reason === "redo", 7000);
+    guestRoom.send("action_redo");
+    assert.deepEqual(tilePositionById(await guestRedoSnapshotPromise, "t1"), {
+      zone: "board",
+      row: 2,
+      col: 2,
+    });
+
+    const guestReturnSnapshotPromise = waitForGameSnapshot(
+      guestRoom,
+      (message) => message.reason === "return_tile",
+      7000,
+    );
+    guestRoom.send("action_return_tile", { tileId: "t1" });
+    assert.deepEqual(tilePositionById(await guestReturnSnapshotPromise, "t1"), {
+      zone: "staging",
+      row: null,
+      col: null,
+    });
+
     const bagBeforeTrade = snapshot.bagCount ?? 0;
     const hostTradeSnapshotPromise = waitForGameSnapshot(
       hostRoom,
@@ -607,8 +699,10 @@ test("multiplayer integration: late join contributes to shared bag burn on serve
       (snapshot) => snapshot.reason === "sync" && snapshot.gameState.status === "running",
       7000,
     );
-    const bagBeforeServe = hostSnapshot.bagCount ?? 0;
-    assert.equal(lateSyncSnapshot.bagCount, bagBeforeServe);
+    const lateShelfSize = stagingTileCount(lateSyncSnapshot);
+    assert.equal(lateShelfSize > 0, true);
+    assert.equal(lateSyncSnapshot.bagCount, (hostSnapshot.bagCount ?? 0) - lateShelfSize);
+    const bagBeforeServe = lateSyncSnapshot.bagCount ?? 0;
 
     const idsToPlace = stagingTileIds(hostSnapshot);
     for (let i = 0; i < idsToPlace.length; i += 1) {
@@ -761,10 +855,12 @@ test("multiplayer integration: disconnected player can rejoin reserved seat and
     const hostBoardWhileDisconnected = roomBoardByPlayerId(stateWhileDisconnected, hostPlayerIdWhileDisconnected);
     assert.ok(hostBoardWhileDisconnected);
     const disconnectedBoardTiles = Array.isArray(hostBoardWhileDisconnected?.tiles) ? hostBoardWhileDisconnected.tiles : [];
-    const t1WhileDisconnected = (disconnectedBoardTiles as Array<Record<string, unknown>>).find((tile) => tile.id === "t1");
-    assert.equal(t1WhileDisconnected?.zone, "board");
-    assert.equal(t1WhileDisconnected?.row, 1);
-    assert.equal(t1WhileDisconnected?.col, 1);
+    assert.equal(disconnectedBoardTiles.length, 0);
+    assert.equal(Number(hostBoardWhileDisconnected?.tileCount) > 0, true);
+    assert.equal(
+      Number(hostBoardWhileDisconnected?.stagingCount),
+      Number(hostBoardWhileDisconnected?.tileCount) - 1,
+    );
 
     reclaimedRoom = await reclaimClient.joinById(hostRoom.roomId, {
       name: "Host",
@@ -783,7 +879,21 @@ test("multiplayer integration: disconnected player can rejoin reserved seat and
       col: 1,
     });
 
-    const stateAfterRejoin = roomStateToJson(reclaimedRoom);
+    const stateAfterRejoin = await waitForRoomState(
+      reclaimedRoom,
+      (json) => {
+        const board = roomBoardByPlayerId(json, hostPlayerIdWhileDisconnected);
+        return Array.isArray(board?.tiles) && board.tiles.length > 0;
+      },
+      7000,
+    );
+    const reclaimedBoardTiles = roomBoardByPlayerId(stateAfterRejoin, hostPlayerIdWhileDisconnected)?.tiles as Array<
+      Record<string, unknown>
+    >;
+    const t1AfterRejoin = reclaimedBoardTiles.find((tile) => tile.id === "t1");
+    assert.equal(t1AfterRejoin?.zone, "board");
+    assert.equal(t1AfterRejoin?.row, 1);
+    assert.equal(t1AfterRejoin?.col, 1);
     const actions = roomActionLog(stateAfterRejoin);
     assert.equal(actions.some((entry) => entry.type === "disconnect" && entry.actorName === "Host"), true);
     assert.equal(actions.some((entry) => entry.type === "rejoin" && entry.actorName === "Host"), true);
@@ -791,3 +901,308 @@ test("multiplayer integration: disconnected player can rejoin reserved seat and
     await server.stop();
   }
 });
+
+test("multiplayer integration: server pressure ticks serve every board from the shared bag", { timeout: 60000 }, async () => {
+  const port = await getRandomPort();
+  const server = await startServer(port, {
+    BISQUITS_PRESSURE_MIN_MS: "400",
+    BISQUITS_PRESSURE_MAX_MS: "400",
+  });
+
+  const endpoint = `ws://localhost:${port}`;
+  const hostClient = new ColyseusClient(endpoint);
+  const guestClient = new ColyseusClient(endpoint);
+
+  let hostRoom: Room | null = null;
+  let guestRoom: Room | null = null;
+
+  try {
+    hostRoom = await hostClient.create("bisquits", { name: "Host" });
+    guestRoom = await guestClient.joinById(hostRoom.roomId, { name: "Guest" });
+
+    hostRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+    guestRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+
+    const hostStartSnapshotPromise = waitForGameSnapshot(
+      hostRoom,
+      (snapshot) => snapshot.reason === "start_game" && snapshot.gameState.status === "running",
+      7000,
+    );
+
+    hostRoom.send("set_ready", { ready: true });
+    guestRoom.send("set_ready", { ready: true });
+    hostRoom.send("start_game");
+
+    const startSnapshot = await hostStartSnapshotPromise;
+    const startBagCount = Number(startSnapshot.bagCount);
+    const startShelfSize = startSnapshot.gameState.tiles.length;
+
+    const tickSnapshot = await waitForGameSnapshot(hostRoom, (snapshot) => snapshot.reason === "pressure_tick", 7000);
+    assert.equal(tickSnapshot.bagCount, startBagCount - 2);
+    assert.equal(tickSnapshot.gameState.tiles.length, startShelfSize + 1);
+    assert.ok((tickSnapshot.nextPressureAt ?? 0) > Number(startSnapshot.nextPressureAt));
+
+    await waitForRoomState(
+      hostRoom,
+      (json) => roomActionLog(json).some((entry) => entry.type === "pressure_tick"),
+      7000,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+test("multiplayer integration: opponents' letters stay hidden until the round ends", { timeout: 60000 }, async () => {
+  const port = await getRandomPort();
+  const server = await startServer(port, {
+    BISQUITS_PRESSURE_MIN_MS: "250",
+    BISQUITS_PRESSURE_MAX_MS: "250",
+  });
+
+  const endpoint = `ws://localhost:${port}`;
+  const hostClient = new ColyseusClient(endpoint);
+  const guestClient = new ColyseusClient(endpoint);
+
+  let hostRoom: Room | null = null;
+  let guestRoom: Room | null = null;
+
+  try {
+    hostRoom = await hostClient.create("bisquits", { name: "Host" });
+    guestRoom = await guestClient.joinById(hostRoom.roomId, { name: "Guest" });
+
+    hostRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+    guestRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+
+    hostRoom.send("set_ready", { ready: true });
+    guestRoom.send("set_ready", { ready: true });
+    hostRoom.send("start_game");
+
+    const hostPlayerId = String(roomPlayerBySessionId(roomStateToJson(hostRoom), hostRoom.sessionId)?.playerId ?? "");
+    const guestViewWhilePlaying = await waitForRoomState(
+      guestRoom,
+      (json) => json.phase === "playing" && Number(roomBoardByPlayerId(json, hostPlayerId)?.tileCount) > 0,
+      7000,
+    );
+    const hostBoardWhilePlaying = roomBoardByPlayerId(guestViewWhilePlaying, hostPlayerId);
+    assert.equal(Array.isArray(hostBoardWhilePlaying?.tiles) ? hostBoardWhilePlaying.tiles.length : 0, 0);
+
+    const guestViewAfterRound = await waitForRoomState(
+      guestRoom,
+      (json) => {
+        const board = roomBoardByPlayerId(json, hostPlayerId);
+        return json.phase === "lobby" && Array.isArray(board?.tiles) && board.tiles.length > 0;
+      },
+      40000,
+    );
+    const hostBoardAfterRound = roomBoardByPlayerId(guestViewAfterRound, hostPlayerId);
+    assert.equal(hostBoardAfterRound?.status, "lost");
+    assert.equal((hostBoardAfterRound?.tiles as unknown[]).length, Number(hostBoardAfterRound?.tileCount));
+  } finally {
+    await server.stop();
+  }
+});
+
+test("multiplayer integration: opponents can't read letters from a board's last action", { timeout: 60000 }, async () => {
+  const port = await getRandomPort();
+  const server = await startServer(port);
+
+  const endpoint = `ws://localhost:${port}`;
+  const hostClient = new ColyseusClient(endpoint);
+  const guestClient = new ColyseusClient(endpoint);
+
+  try {
+    const hostRoom = await hostClient.create("bisquits", { name: "Host" });
+    const guestRoom = await guestClient.joinById(hostRoom.roomId, { name: "Guest" });
+    hostRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+    guestRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+
+    hostRoom.send("set_ready", { ready: true });
+    guestRoom.send("set_ready", { ready: true });
+    const hostStart = waitForGameSnapshot(hostRoom, (snapshot) => snapshot.reason === "start_game", 7000);
+    // Seed 8 with four blanks deals each seat a blank.
+    hostRoom.send("start_game", { seed: 8, blankTiles: 4 });
+    const hostTiles = (await hostStart).gameState.tiles as Array<{ id: string; letter: string; zone: string }>;
+    const [shelfTile, lastShelfTile] = hostTiles.filter((tile) => tile.zone === "staging" && tile.letter !== "?");
+    const blankTile = hostTiles.find((tile) => tile.letter === "?");
+    assert.ok(shelfTile && lastShelfTile && blankTile);
+
+    const hostPlayerId = String(roomPlayerBySessionId(roomStateToJson(hostRoom), hostRoom.sessionId)?.playerId ?? "");
+    hostRoom.send("action_move_tile", { tileId: shelfTile.id, row: 3, col: 4 });
+    const hostView = await waitForRoomState(
+      hostRoom,
+      (json) => String(roomBoardByPlayerId(json, hostPlayerId)?.lastAction ?? "").startsWith("Placed"),
+      7000,
+    );
+    assert.match(String(roomBoardByPlayerId(hostView, hostPlayerId)?.lastAction), /^Placed \S+ on 3,4\.$/);
+
+    hostRoom.send("action_move_tile", { tileId: blankTile.id, row: 3, col: 5, letter: "Q" });
+    hostRoom.send("action_assign_blank", { tileId: blankTile.id, letter: "Z" });
+    const blankView = await waitForRoomState(
+      hostRoom,
+      (json) => String(roomBoardByPlayerId(json, hostPlayerId)?.lastAction ?? "").startsWith("Your blank"),
+      7000,
+    );
+    assert.equal(roomBoardByPlayerId(blankView, hostPlayerId)?.lastAction, "Your blank now reads Z.");
+    hostRoom.send("action_move_tile", { tileId: lastShelfTile.id, row: 3, col: 6 });
+
+    const guestView = await waitForRoomState(
+      guestRoom,
+      (json) => Number(roomBoardByPlayerId(json, hostPlayerId)?.stagingCount) === hostTiles.length - 3,
+      7000,
+    );
+    const hostBoardForGuest = roomBoardByPlayerId(guestView, hostPlayerId);
+    assert.equal(hostBoardForGuest?.lastAction ?? "", "");
+    assert.doesNotMatch(JSON.stringify(hostBoardForGuest), /letter|Placed|blank/i);
+    assert.doesNotMatch(JSON.stringify(guestView.actionLog ?? []), /\bZ\b|\bQ\b/);
+  } finally {
+    await server.stop();
+  }
+});
+
+// A small word list in a temp directory, for rooms that need a server dictionary.
+async function writeTestWordList(): Promise<{ path: string; remove: () => Promise<void> }> {
+  const directory = await mkdtemp(join(tmpdir(), "bisquits-words-"));
+  const path = join(directory, "words.txt");
+  await writeFile(
+    path,
+    ["at", "an", "as", "in", "is", "it", "on", "to", "be", "he", "me", "we", "no", "so", "do", "go", "us", "up", "or",
+      "ate", "eat", "tea", "ten", "net", "not", "ton", "one", "son", "sun", "run", "rat", "tar", "art", "ear", "era",
+      "tin", "sin", "sit", "set", "sea", "see", "toe", "hot", "hat", "red", "bed", "dog", "god", "nor", "our"].join("\n"),
+  );
+  return { path, remove: () => rm(directory, { recursive: true, force: true }) };
+}
+
+test("multiplayer integration: a host-added bot takes a seat and plays through engine actions", { timeout: 60000 }, async () => {
+  const wordList = await writeTestWordList();
+  const port = await getRandomPort();
+  const server = await startServer(port, { BISQUITS_WORDLIST_PATH: wordList.path });
+
+  const endpoint = `ws://localhost:${port}`;
+  const hostClient = new ColyseusClient(endpoint);
+  let hostRoom: Room | null = null;
+
+  try {
+    hostRoom = await hostClient.create("bisquits", { name: "Host" });
+    hostRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+
+    hostRoom.send("add_bot", { difficulty: "hard" });
+    const withBot = await waitForRoomState(
+      hostRoom,
+      (json) => Object.values((json.players ?? {}) as Record<string, Record<string, unknown>>).some((player) => player.isBot),
+      7000,
+    );
+    const bot = Object.values(withBot.players as Record<string, Record<string, unknown>>).find((player) => player.isBot);
+    assert.equal(bot?.botDifficulty, "hard");
+    assert.equal(bot?.ready, true);
+
+    hostRoom.send("start_game");
+    await waitForRoomState(
+      hostRoom,
+      (json) =>
+        roomActionLog(json).some(
+          (entry) =>
+            entry.actorPlayerId === bot?.playerId && ["move_tile", "trade_tile", "serve_plate"].includes(String(entry.type)),
+        ),
+      15000,
+    );
+    assert.equal(roomStateToJson(hostRoom).ownerClientId, hostRoom.sessionId);
+  } finally {
+    await server.stop();
+    await wordList.remove();
+  }
+});
+
+test("multiplayer integration: casual rooms serve rate-limited hints", { timeout: 60000 }, async () => {
+  const wordList = await writeTestWordList();
+  const port = await getRandomPort();
+  const server = await startServer(port, { BISQUITS_WORDLIST_PATH: wordList.path });
+
+  const endpoint = `ws://localhost:${port}`;
+  const hostClient = new ColyseusClient(endpoint);
+  const guestClient = new ColyseusClient(endpoint);
+
+  try {
+    const hostRoom = await hostClient.create("bisquits", { name: "Host", casual: true });
+    const guestRoom = await guestClient.joinById(hostRoom.roomId, { name: "Guest" });
+    hostRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+    guestRoom.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+
+    const startSnapshot = waitForGameSnapshot(hostRoom, (snapshot) => snapshot.reason === "start_game", 7000);
+    hostRoom.send("start_game");
+    const shelfTileIds = new Set(stagingTileIds(await startSnapshot));
+
+    const hintPromise = waitForMessage<{ placement: { moves: Array<{ tileId: string }> } | null; tradeTileIds: string[] }>(
+      hostRoom,
+      "hint",
+      7000,
+    );
+    hostRoom.send("request_hint");
+    const hint = await hintPromise;
+    for (const tileId of [...(hint.placement?.moves.map((move) => move.tileId) ?? []), ...hint.tradeTileIds]) {
+      assert.equal(shelfTileIds.has(tileId), true);
+    }
+
+    const cooldown = waitForMessage<{ message?: string }>(hostRoom, "action_rejected", 7000);
+    hostRoom.send("request_hint");
+    assert.match((await cooldown).message ?? "", /Next hint in/);
+  } finally {
+    await server.stop();
+    await wordList.remove();
+  }
+});
+
+test("multiplayer integration: daily rooms deal the date's board to a solo player", { timeout: 60000 }, async () => {
+  const port = await getRandomPort();
+  const server = await startServer(port, { BISQUITS_DAILY_SECRET: "integration-secret" });
+  const client = new ColyseusClient(`ws://localhost:${port}`);
+
+  try {
+    const room = await client.create("bisquits", { name: "Solo", daily: true, variant: "classic" });
+    room.onMessage("*", () => {
+      // Ignore unrelated room messages in this test.
+    });
+
+    const startSnapshot = waitForGameSnapshot(room, (snapshot) => snapshot.reason === "start_game", 7000);
+    room.send("start_game", { seed: 1, blankTiles: 4 });
+    const dealt = (await startSnapshot).gameState.tiles as Array<{ letter: string }>;
+    const expected = createDailyChallenge(getDailyDate(), "integration-secret").board.tiles;
+    assert.deepEqual(
+      dealt.map((tile) => tile.letter),
+      expected.map((tile) => tile.letter),
+    );
+    assert.equal(roomStateToJson(room).variant, "bisquits");
+
+    const response = await fetch(`http://localhost:${port}/api/daily`);
+    const leaderboard = (await response.json()) as { date: string; results: unknown[]; seed?: number };
+    assert.equal(leaderboard.date, getDailyDate());
+    assert.ok(Array.isArray(leaderboard.results));
+    assert.equal(leaderboard.seed, undefined);
+
+    const yesterday = getDailyDate(Date.now() - 24 * 60 * 60 * 1000);
+    const past = (await (await fetch(`http://localhost:${port}/api/daily?date=${yesterday}`)).json()) as {
+      seed?: number;
+    };
+    assert.equal(past.seed, getDailySeed(yesterday, "integration-secret"));
+    assert.equal((await fetch(`http://localhost:${port}/api/daily?date=yesterday`)).status, 400);
+  } finally {
+    await server.stop();
+  }
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  createGame,
+  createSeededRandom,
+  createTileBag,
+  moveTile,
+  tradeTile,
+} from "../shared/game/engine";
+import { formatBoardNotation, parseBoardNotation } from "../shared/game/notation";
+
+test("board notation round-trips an engine-built board, including traded tile ids", () => {
+  const rng = createSeededRandom(21);
+  const bag = createTileBag(rng);
+  let state = createGame({ players: 2, initialVisibleTiles: 5, boardMode: "expanding", seed: 21 }, bag);
+  state = moveTile(state, "t2", -1, 3);
+  state = moveTile(state, "t4", 0, 3);
+  state = tradeTile(state, "t1", bag, rng);
+
+  const text = formatBoardNotation(state, bag.letters.length);
+  const parsed = parseBoardNotation(text);
+
+  assert.deepEqual(parsed.state.tiles, state.tiles);
+  assert.equal(parsed.bagCount, bag.letters.length);
+  assert.equal(parsed.state.turn, state.turn);
+  assert.equal(parsed.state.nextTileId, state.nextTileId);
+  assert.equal(parsed.state.config.boardMode, "expanding");
+  assert.equal(formatBoardNotation(parsed.state, parsed.bagCount), text);
+  assert.match(text, /^16x16 expanding bisquits\/2 t2=/);
+});
+
+test("board notation reads hand-written fixtures with default ids", () => {
+  const text = "9x9 fixed classic/3 C@4:3,A@4:4,T@4:5,E,Q 40 2 rotten 6";
+  const { state, bagCount } = parseBoardNotation(text);
+
+  assert.deepEqual(state.tiles.slice(2), [
+    { id: "t3", letter: "T", zone: "board", row: 4, col: 5 },
+    { id: "t4", letter: "E", zone: "staging", row: null, col: null },
+    { id: "t5", letter: "Q", zone: "staging", row: null, col: null },
+  ]);
+  assert.equal(state.status, "rotten");
+  assert.equal(state.config.variant, "classic");
+  assert.equal(bagCount, 40);
+  assert.equal(formatBoardNotation(state, bagCount), text);
+  assert.equal(parseBoardNotation("16x16 fixed bisquits/4 - 144 0 running 1").state.tiles.length, 0);
+});
+
+test("board notation writes blanks as ? with their assigned letter", () => {
+  const text = "9x9 fixed bisquits/2 C@4:3,A@4:4,?T@4:5,? 60 3 running 5";
+  const { state, bagCount } = parseBoardNotation(text);
+
+  assert.deepEqual(state.tiles.slice(2), [
+    { id: "t3", letter: "?", assignedLetter: "T", zone: "board", row: 4, col: 5 },
+    { id: "t4", letter: "?", zone: "staging", row: null, col: null },
+  ]);
+  assert.equal(formatBoardNotation(state, bagCount), text);
+});
+
+test("board notation rejects malformed positions", () => {
+  assert.throws(() => parseBoardNotation("16x16 fixed bisquits/4 - 144 0 running"), /8 space-separated fields/);
+  assert.throws(() => parseBoardNotation("16x16 fixed bisquits/4 - 144 0 paused 1"), /status/);
+  assert.throws(() => parseBoardNotation("16x16 fixed bisquits/4 A@1,B 144 0 running 3"), /tile 1 is malformed/);
+  assert.throws(() => parseBoardNotation("16x16 fixed bisquits/4 t2=A,B 144 0 running 3"), /repeats tile id "t2"/);
+});
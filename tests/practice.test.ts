@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { findRejection, type GameAction } from "../shared/game/actions";
+import {
+  createPracticeRound,
+  playPracticeAction,
+  type PracticeResult,
+  type PracticeRound,
+} from "../shared/game/practice";
+
+function play(round: PracticeRound, action: GameAction) {
+  const step = playPracticeAction(round, action);
+  assert.equal(findRejection(step.events), undefined);
+  round.boards = step.state;
+  return step;
+}
+
+test("a practice round deals one board for a table of two from its seed", () => {
+  const first = createPracticeRound(31, { language: "nl" });
+  const second = createPracticeRound(31, { language: "nl" });
+
+  assert.equal(first.boards.length, 1);
+  assert.equal(first.boards[0].config.players, 2);
+  assert.equal(first.boards[0].config.language, "nl");
+  assert.deepEqual(second.boards, first.boards);
+  assert.deepEqual(second.bag, first.bag);
+});
+
+test("pressure ticks run a practice round until the bag runs dry", () => {
+  const round = createPracticeRound(32);
+  const startingBag = round.bag.letters.length;
+
+  const tick = play(round, { type: "pressure_tick" });
+  assert.equal(tick.result, null);
+  assert.equal(round.bag.letters.length, startingBag - 2);
+
+  let result: PracticeResult | null = null;
+  for (let ticks = 0; result === null && ticks < 200; ticks += 1) {
+    result = play(round, { type: "pressure_tick" }).result;
+  }
+  assert.equal(result, "lost");
+});
+
+test("a practice final plate wins when connected and goes rotten when it isn't", () => {
+  const finalPlate = (layout: (index: number) => { row: number; col: number }) => {
+    const round = createPracticeRound(33);
+    round.bag.letters.splice(0);
+    round.boards[0].tiles.forEach((tile, index) => {
+      play(round, { type: "move_tile", seat: 0, tileId: tile.id, ...layout(index) });
+    });
+    return play(round, { type: "serve_plate", seat: 0 }).result;
+  };
+
+  assert.equal(finalPlate((index) => ({ row: 2 + Math.floor(index / 8), col: 2 + (index % 8) })), "won");
+  assert.equal(finalPlate((index) => ({ row: 2 * Math.floor(index / 7), col: 2 * (index % 7) })), "rotten");
+});
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createWordDictionary } from "../shared/game/dictionary";
+import {
+  createGame,
+  createSeededRandom,
+  extractBoardWords,
+  validateBoardWords,
+  type GameState,
+  type Tile,
+} from "../shared/game/engine";
+import { findWordPlacement, planBotStep, suggestHint, type TileMove } from "../shared/game/solver";
+
+function shelf(letters: string): Tile[] {
+  return [...letters].map((letter, index) => ({ id: `s${index}`, letter, zone: "staging", row: null, col: null }));
+}
+
+function withTiles(tiles: Tile[]): GameState {
+  return { ...createGame({ rows: 9, cols: 9, initialVisibleTiles: 0 }), tiles };
+}
+
+function applyPlacement(state: GameState, moves: TileMove[]): GameState {
+  const byId = new Map(moves.map((move) => [move.tileId, move]));
+  return {
+    ...state,
+    tiles: state.tiles.map((tile) => {
+      const move = byId.get(tile.id);
+      return move ? { ...tile, assignedLetter: move.letter, zone: "board", row: move.row, col: move.col } : tile;
+    }),
+  };
+}
+
+test("findWordPlacement opens an empty board with the longest word the shelf spells", () => {
+  const dictionary = createWordDictionary(["cat", "cast", "act"]);
+  const state = withTiles(shelf("TSAC"));
+
+  const placement = findWordPlacement(state, dictionary);
+  assert.equal(placement?.word, "CAST");
+  assert.equal(placement?.direction, "across");
+  assert.equal(findWordPlacement(state, dictionary, { maxWordLength: 3 })?.word, "ACT");
+});
+
+test("findWordPlacement crosses a placed tile and keeps every word on the board valid", () => {
+  const dictionary = createWordDictionary(["cat", "tea"]);
+  const state = withTiles([
+    { id: "c", letter: "C", zone: "board", row: 4, col: 3 },
+    { id: "a", letter: "A", zone: "board", row: 4, col: 4 },
+    { id: "t", letter: "T", zone: "board", row: 4, col: 5 },
+    ...shelf("EA"),
+  ]);
+
+  const placement = findWordPlacement(state, dictionary);
+  assert.equal(placement?.word, "TEA");
+  assert.equal(placement?.direction, "down");
+  const placed = applyPlacement(state, placement?.moves ?? []);
+  assert.equal(validateBoardWords(placed, dictionary).valid, true);
+  assert.deepEqual(extractBoardWords(placed).map((run) => run.word).sort(), ["CAT", "TEA"]);
+});
+
+test("planBotStep serves a finished grid, trades a stuck letter, and otherwise waits", () => {
+  const dictionary = createWordDictionary(["cat"]);
+  const finished = withTiles([
+    { id: "c", letter: "C", zone: "board", row: 4, col: 3 },
+    { id: "a", letter: "A", zone: "board", row: 4, col: 4 },
+    { id: "t", letter: "T", zone: "board", row: 4, col: 5 },
+  ]);
+  assert.deepEqual(planBotStep(finished, dictionary, { canTrade: true }), { type: "serve" });
+
+  const stuck = withTiles([...finished.tiles, ...shelf("QE")]);
+  assert.deepEqual(planBotStep(stuck, dictionary, { canTrade: true }), { type: "trade", tileId: "s0" });
+  assert.deepEqual(planBotStep(stuck, dictionary, { canTrade: false }), { type: "wait" });
+});
+
+test("a bot plays a blank on its shelf as whatever letter the word needs", () => {
+  const dictionary = createWordDictionary(["cat", "tea"]);
+  const opening = withTiles(shelf("CA?"));
+
+  const placement = findWordPlacement(opening, dictionary);
+  assert.equal(placement?.word, "CAT");
+  assert.deepEqual(placement?.moves.map((move) => move.letter), [undefined, undefined, "T"]);
+
+  const finished = withTiles([
+    { id: "c", letter: "C", zone: "board", row: 4, col: 3 },
+    { id: "a", letter: "A", zone: "board", row: 4, col: 4 },
+    { id: "t", letter: "T", zone: "board", row: 4, col: 5 },
+    ...shelf("E?"),
+  ]);
+  const step = planBotStep(finished, dictionary, { canTrade: true });
+  assert.equal(step.type === "place" && step.placement.word, "TEA");
+  const played = applyPlacement(finished, step.type === "place" ? step.placement.moves : []);
+  assert.equal(validateBoardWords(played, dictionary).valid, true);
+  assert.deepEqual(planBotStep(played, dictionary, { canTrade: true }), { type: "serve" });
+});
+
+test("suggestHint pairs a placement with trades for letters no word can use", () => {
+  const dictionary = createWordDictionary(["cat", "tea"]);
+  const state = withTiles([
+    { id: "c", letter: "C", zone: "board", row: 4, col: 3 },
+    { id: "a", letter: "A", zone: "board", row: 4, col: 4 },
+    { id: "t", letter: "T", zone: "board", row: 4, col: 5 },
+    ...shelf("EAQ"),
+  ]);
+
+  const hint = suggestHint(state, dictionary);
+  assert.equal(hint.placement?.word, "TEA");
+  assert.deepEqual(hint.tradeTileIds, ["s2"]);
+});
+
+test("a bot turn stays quick against a full-size word list when nothing fits", () => {
+  const rng = createSeededRandom(17);
+  const words = Array.from({ length: 170000 }, () =>
+    Array.from({ length: 2 + Math.floor(rng() * 10) }, () => "EEEAAIIOONRTLSUDGBCMPFHVWYKJXQZ"[Math.floor(rng() * 31)]).join(""),
+  );
+  const dictionary = createWordDictionary([...words, "RETAINS"]);
+  // A misspelled run elsewhere on the board fails every trial placement, so only the budget ends the search.
+  const state = withTiles([
+    ...[..."RETAINS"].map((letter, index): Tile => ({ id: `r${index}`, letter, zone: "board", row: 5, col: 1 + index })),
+    ...[..."QZXQZXQJ"].map((letter, index): Tile => ({ id: `q${index}`, letter, zone: "board", row: 1, col: 1 + index })),
+    ...shelf("EAIOTNRSLUDE"),
+  ]);
+  // The word list is sorted once per dictionary; time the search alone.
+  findWordPlacement(state, dictionary, { searchBudget: 1 });
+
+  const startedAt = performance.now();
+  assert.equal(findWordPlacement(state, dictionary), null);
+  assert.ok(performance.now() - startedAt < 250, `search took ${Math.round(performance.now() - startedAt)}ms`);
+});
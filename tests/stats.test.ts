@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+
+import { createGame } from "../shared/game/engine";
+import { StatsStore } from "../server/stats/StatsStore";
+
+test("a match keeps its round replay in the stats file but not in room snapshots", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "bisquits-stats-"));
+  const filePath = join(directory, "stats.json");
+  try {
+    const store = new StatsStore(filePath);
+    await store.init();
+    const replay = {
+      config: createGame({ players: 2, seed: 9 }).config,
+      boardCount: 2,
+      actions: [{ type: "pressure_tick" as const }],
+    };
+    const match = {
+      roomId: "room",
+      winnerName: "Ada",
+      longestWord: "CRUMB",
+      players: ["Ada", "Bo"],
+      seed: 9,
+      scores: [],
+      rottenPlayers: [],
+    };
+    const snapshot = await store.recordMatch({ ...match, replay });
+
+    assert.equal(snapshot.recentMatches[0].seed, 9);
+    assert.equal("replay" in snapshot.recentMatches[0], false);
+    assert.equal("replay" in (await store.getSnapshot()).recentMatches[0], false);
+    const stored = JSON.parse(await readFile(filePath, "utf8")) as { recentMatches: Array<{ replay?: unknown }> };
+    assert.deepEqual(stored.recentMatches[0].replay, replay);
+
+    const reloaded = new StatsStore(filePath);
+    await reloaded.init();
+    await reloaded.recordMatch({ ...match, seed: 10, replay: null });
+    const restored = JSON.parse(await readFile(filePath, "utf8")) as { recentMatches: Array<{ replay?: unknown }> };
+    assert.deepEqual(restored.recentMatches[1].replay, replay);
+    assert.equal("replay" in restored.recentMatches[0], false);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});